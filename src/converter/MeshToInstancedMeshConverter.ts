@@ -1,7 +1,12 @@
 import {
+  BufferAttribute,
+  BufferGeometry,
+  Color,
   Euler,
   Group,
+  InstancedBufferAttribute,
   InstancedMesh,
+  Material,
   Matrix4,
   Mesh,
   Quaternion,
@@ -19,6 +24,25 @@ export interface ITransformationData {
   scale: Vector3;
 }
 
+/**
+ * GPU upload totals of the latest flushUpdates()
+ */
+export interface IUploadStats {
+  /** Bytes queued for upload across all instanced attributes */
+  bytes: number;
+  /** Number of update ranges added */
+  ranges: number;
+}
+
+/** Floats per instance in packed transforms: position (3), quaternion (4), scale (3) */
+export const PACKED_TRANSFORM_STRIDE = 10;
+
+/** Above this many ranges per attribute, dirty slots are uploaded as one span */
+const MAX_UPDATE_RANGES = 32;
+
+/** Per-instance attribute name of InstancedMesh.instanceColor */
+const INSTANCE_COLOR = 'instanceColor';
+
 /**
  * Internal mesh info storing relative transforms
  */
@@ -30,66 +54,141 @@ interface IMeshInfo {
   originalMesh: Mesh;
 }
 
+/**
+ * Per-instance attribute values stored by handle, copied into an instance's slot whenever it is shown
+ */
+interface IInstanceAttribute {
+  name: string;
+  itemSize: number;
+  values: Float32Array;
+  /** Value of instances that were never set */
+  defaultValue: number;
+}
+
+/**
+ * InstancedMeshes of one geometry level and the packed live range they draw
+ */
+interface ILevel {
+  meshInfos: IMeshInfo[];
+  slotToHandle: Int32Array;
+  liveCount: number;
+  dirtyFlags: Uint8Array;
+  dirtySlots: number[];
+}
+
 /**
  * Converts a Mesh or Group into InstancedMesh(es)
- * Preserves relative transforms within groups
+ * Preserves relative transforms within groups.
+ *
+ * Instance indices passed to the public API are stable handles. Visible
+ * instances are packed into slots [0, liveCount) of the InstancedMesh and
+ * `count` is kept at the live total, so hidden instances cost nothing to draw.
+ *
+ * Writes are collected per slot and uploaded as update ranges by flushUpdates(),
+ * which scatter systems call once per update().
+ *
+ * Transforms are stored as packed position, quaternion and scale arrays indexed by handle,
+ * so large pools allocate no per-instance objects.
+ *
+ * Optional LOD sources add geometry levels, each with its own set of InstancedMeshes.
+ * Every instance is drawn by exactly one level; setInstanceLevel() moves it between them.
+ *
+ * Instance colors and custom instanced attributes are stored by handle like transforms.
+ * Adding an attribute gives each InstancedMesh its own geometry sharing the source's
+ * vertex data, so the source geometry is never modified.
  */
 export class MeshToInstancedMeshConverter {
   private _sourceMesh: Mesh | Group;
   private _instanceCount: number;
-  private _meshInfos: IMeshInfo[] = [];
-  private _instanceTransforms: ITransformationData[] = [];
+  private _levels: ILevel[] = [];
+  private _positions: Float32Array;
+  private _quaternions: Float32Array;
+  private _scales: Float32Array;
+  /** Slot of each instance within its level (-1 when hidden) */
+  private _handleToSlot: Int32Array;
+  private _handleToLevel: Uint8Array;
+  private _instanceAttributes: IInstanceAttribute[] = [];
+  private _uploadStats: IUploadStats = { bytes: 0, ranges: 0 };
+  /** Bytes of reallocated buffers, uploaded whole on their next render */
+  private _reallocatedBytes: number = 0;
   private _tempMatrix: Matrix4 = new Matrix4();
   private _tempPosition: Vector3 = new Vector3();
   private _tempQuaternion: Quaternion = new Quaternion();
   private _tempScale: Vector3 = new Vector3();
+  private _basePosition: Vector3 = new Vector3();
+  private _baseQuaternion: Quaternion = new Quaternion();
+  private _baseScale: Vector3 = new Vector3();
+  private _transformView: ITransformationData = {
+    position: new Vector3(),
+    rotation: new Euler(),
+    quaternion: new Quaternion(),
+    scale: new Vector3()
+  };
 
-  constructor(sourceMesh: Mesh | Group, instanceCount: number) {
+  /**
+   * @param sourceMesh - Object drawn at level 0
+   * @param instanceCount - Number of instance handles
+   * @param lodSources - Lower-detail objects drawn at levels 1, 2, ...
+   */
+  constructor(sourceMesh: Mesh | Group, instanceCount: number, lodSources: Array<Mesh | Group> = []) {
+    if (lodSources.length > 255) {
+      throw new Error(`At most 255 LOD sources are supported, got ${lodSources.length}`);
+    }
     this._sourceMesh = sourceMesh;
     this._instanceCount = instanceCount;
+    this._handleToSlot = new Int32Array(instanceCount).fill(-1);
+    this._handleToLevel = new Uint8Array(instanceCount);
 
-    // Initialize instance transforms
-    for (let i = 0; i < instanceCount; i++) {
-      this._instanceTransforms.push({
-        position: new Vector3(0, 0, 0),
-        rotation: new Euler(0, 0, 0),
-        quaternion: new Quaternion(),
-        scale: new Vector3(1, 1, 1)
-      });
-    }
+    // Identity transforms
+    this._positions = new Float32Array(instanceCount * 3);
+    this._quaternions = new Float32Array(instanceCount * 4);
+    this._scales = new Float32Array(instanceCount * 3);
+    this.resetTransforms(0, instanceCount);
 
-    this.convertToInstancedMesh();
+    for (const source of [sourceMesh, ...lodSources]) {
+      this.convertToInstancedMesh(source);
+    }
   }
 
-  private convertToInstancedMesh(): void {
+  private convertToInstancedMesh(source: Mesh | Group): void {
     const meshes: Mesh[] = [];
 
-    if (this._sourceMesh instanceof Mesh) {
-      meshes.push(this._sourceMesh);
+    if (source instanceof Mesh) {
+      meshes.push(source);
 
-      this._sourceMesh.traverse((child) => {
-        if (child instanceof Mesh && child !== this._sourceMesh) {
+      source.traverse((child) => {
+        if (child instanceof Mesh && child !== source) {
           meshes.push(child);
         }
       });
-    } else if (this._sourceMesh instanceof Group) {
-      this._sourceMesh.traverse((child) => {
+    } else if (source instanceof Group) {
+      source.traverse((child) => {
         if (child instanceof Mesh) {
           meshes.push(child);
         }
       });
     }
 
+    const level: ILevel = {
+      meshInfos: [],
+      slotToHandle: new Int32Array(this._instanceCount).fill(-1),
+      liveCount: 0,
+      dirtyFlags: new Uint8Array(this._instanceCount),
+      dirtySlots: []
+    };
+    this._levels.push(level);
+
     for (const mesh of meshes) {
-      this.createInstancedMeshFromMesh(mesh);
+      level.meshInfos.push(this.createInstancedMeshFromMesh(mesh, source));
     }
 
-    this.resetAllInstances();
+    this.updateDrawCount(level);
   }
 
-  private createInstancedMeshFromMesh(mesh: Mesh): void {
+  private createInstancedMeshFromMesh(mesh: Mesh, source: Mesh | Group): IMeshInfo {
+    // Each InstancedMesh draws a copy of the source geometry, released together with its instance buffers
     const instancedMesh = new InstancedMesh(
-      mesh.geometry,
+      this.shareGeometry(mesh.geometry),
       mesh.material,
       this._instanceCount
     );
@@ -102,62 +201,257 @@ export class MeshToInstancedMeshConverter {
     const relativeRotation = new Quaternion().setFromEuler(mesh.rotation);
     const relativeScale = mesh.scale.clone();
 
-    if (mesh.parent && mesh.parent !== this._sourceMesh) {
+    if (mesh.parent && mesh.parent !== source) {
       const worldMatrix = new Matrix4();
       mesh.updateMatrixWorld(true);
       worldMatrix.copy(mesh.matrixWorld);
 
-      if (this._sourceMesh.parent) {
+      if (source.parent) {
         const parentInverse = new Matrix4();
-        this._sourceMesh.parent.updateMatrixWorld(true);
-        parentInverse.copy(this._sourceMesh.parent.matrixWorld).invert();
+        source.parent.updateMatrixWorld(true);
+        parentInverse.copy(source.parent.matrixWorld).invert();
         worldMatrix.premultiply(parentInverse);
       }
 
       worldMatrix.decompose(relativePosition, relativeRotation, relativeScale);
     }
 
-    this._meshInfos.push({
+    return {
       instancedMesh,
       relativePosition,
       relativeRotation,
       relativeScale,
       originalMesh: mesh
-    });
+    };
   }
 
-  private resetAllInstances(): void {
-    for (let i = 0; i < this._instanceCount; i++) {
-      this.updateInstanceTransform(i);
+  private resetTransforms(start: number, end: number): void {
+    this._positions.fill(0, start * 3, end * 3);
+    this._quaternions.fill(0, start * 4, end * 4);
+    this._scales.fill(1, start * 3, end * 3);
+    for (let i = start; i < end; i++) {
+      this._quaternions[i * 4 + 3] = 1;
     }
   }
 
+  private writeTransform(instanceIndex: number, position: Vector3, quaternion: Quaternion, scale: Vector3): void {
+    position.toArray(this._positions, instanceIndex * 3);
+    quaternion.toArray(this._quaternions, instanceIndex * 4);
+    scale.toArray(this._scales, instanceIndex * 3);
+  }
+
   private updateInstanceTransform(instanceIndex: number): void {
-    const transform = this._instanceTransforms[instanceIndex];
-    transform.quaternion.setFromEuler(transform.rotation);
+    this._basePosition.fromArray(this._positions, instanceIndex * 3);
+    this._baseQuaternion.fromArray(this._quaternions, instanceIndex * 4);
+    this._baseScale.fromArray(this._scales, instanceIndex * 3);
+
+    const level = this._levels[this._handleToLevel[instanceIndex]];
+    const slot = this.acquireSlot(instanceIndex);
+    for (const meshInfo of level.meshInfos) {
+      this.applyTransformToMesh(slot, meshInfo);
+      for (const attribute of this._instanceAttributes) {
+        this.copyAttributeToSlot(attribute, instanceIndex, slot, meshInfo.instancedMesh);
+      }
+    }
+    this.markSlotDirty(level, slot);
+  }
+
+  /**
+   * Buffer of a per-instance attribute on one InstancedMesh
+   */
+  private getAttributeBuffer(mesh: InstancedMesh, name: string): BufferAttribute {
+    return (name === INSTANCE_COLOR ? mesh.instanceColor : mesh.geometry.getAttribute(name)) as BufferAttribute;
+  }
+
+  private copyAttributeToSlot(attribute: IInstanceAttribute, instanceIndex: number, slot: number, mesh: InstancedMesh): void {
+    const size = attribute.itemSize;
+    this.getAttributeBuffer(mesh, attribute.name).array.set(
+      attribute.values.subarray(instanceIndex * size, instanceIndex * size + size),
+      slot * size
+    );
+  }
+
+  /**
+   * Copy an attribute value into a visible instance's slot
+   */
+  private writeAttribute(attribute: IInstanceAttribute, instanceIndex: number): void {
+    const slot = this._handleToSlot[instanceIndex];
+    if (slot === -1) return;
+
+    const level = this._levels[this._handleToLevel[instanceIndex]];
+    for (const meshInfo of level.meshInfos) {
+      this.copyAttributeToSlot(attribute, instanceIndex, slot, meshInfo.instancedMesh);
+    }
+    this.markSlotDirty(level, slot);
+  }
+
+  private createInstanceAttribute(name: string, itemSize: number, defaultValue: number): IInstanceAttribute {
+    const existing = this._instanceAttributes.find(attribute => attribute.name === name);
+    if (existing) {
+      if (existing.itemSize !== itemSize) {
+        throw new Error(`Instance attribute ${name} already exists with item size ${existing.itemSize}`);
+      }
+      return existing;
+    }
+
+    const capacity = this.getCapacity();
+    for (const level of this._levels) {
+      for (const meshInfo of level.meshInfos) {
+        const mesh = meshInfo.instancedMesh;
+        const buffer = new InstancedBufferAttribute(new Float32Array(capacity * itemSize).fill(defaultValue), itemSize);
+        if (name === INSTANCE_COLOR) {
+          mesh.instanceColor = buffer;
+          continue;
+        }
+        mesh.geometry.setAttribute(name, buffer);
+      }
+    }
+
+    const attribute: IInstanceAttribute = {
+      name,
+      itemSize,
+      values: new Float32Array(this._instanceCount * itemSize).fill(defaultValue),
+      defaultValue
+    };
+    this._instanceAttributes.push(attribute);
+    return attribute;
+  }
+
+  /**
+   * Geometry using the same vertex data as the source, so instanced attributes can be added to it alone
+   */
+  private shareGeometry(source: BufferGeometry): BufferGeometry {
+    const geometry = new BufferGeometry();
+    geometry.setIndex(source.index);
+    for (const [name, attribute] of Object.entries(source.attributes)) {
+      geometry.setAttribute(name, attribute);
+    }
+    geometry.morphAttributes = { ...source.morphAttributes };
+    geometry.morphTargetsRelative = source.morphTargetsRelative;
+    for (const group of source.groups) {
+      geometry.addGroup(group.start, group.count, group.materialIndex);
+    }
+    geometry.setDrawRange(source.drawRange.start, source.drawRange.count);
+    geometry.boundingBox = source.boundingBox?.clone() ?? null;
+    geometry.boundingSphere = source.boundingSphere?.clone() ?? null;
+    return geometry;
+  }
+
+  /**
+   * Dispose a geometry made by shareGeometry(), freeing only its own instanced attributes
+   * and the `retired` instance buffers drawn with it.
+   * The vertex data it shares with the source is detached first, so the renderer keeps
+   * the source's buffers (and the vertex array objects bound to them).
+   */
+  private releaseSharedGeometry(geometry: BufferGeometry, retired: InstancedBufferAttribute[] = []): void {
+    for (const [name, attribute] of Object.entries(geometry.attributes)) {
+      if (!(attribute instanceof InstancedBufferAttribute)) geometry.deleteAttribute(name);
+    }
+    // Disposing a geometry frees every attribute it holds
+    retired.forEach((attribute, index) => geometry.setAttribute(`retired${index}`, attribute));
+    geometry.setIndex(null);
+    geometry.morphAttributes = {};
+    geometry.dispose();
+  }
+
+  private getInstanceAttributeEntry(name: string): IInstanceAttribute {
+    const attribute = this._instanceAttributes.find(entry => entry.name === name);
+    if (!attribute) {
+      throw new Error(`Unknown instance attribute: ${name}`);
+    }
+    return attribute;
+  }
+
+  private markSlotDirty(level: ILevel, slot: number): void {
+    if (level.dirtyFlags[slot]) return;
+    level.dirtyFlags[slot] = 1;
+    level.dirtySlots.push(slot);
+  }
+
+  /**
+   * Per-instance attributes of a mesh: the matrix, colors and any instanced geometry attributes
+   */
+  private getInstancedAttributes(mesh: InstancedMesh): BufferAttribute[] {
+    const attributes: BufferAttribute[] = [mesh.instanceMatrix];
+    if (mesh.instanceColor) attributes.push(mesh.instanceColor);
+
+    for (const attribute of Object.values(mesh.geometry.attributes)) {
+      if (attribute instanceof InstancedBufferAttribute) attributes.push(attribute);
+    }
+    return attributes;
+  }
+
+  /**
+   * Slot of a visible instance, appending it to its level's live range if hidden
+   */
+  private acquireSlot(instanceIndex: number): number {
+    let slot = this._handleToSlot[instanceIndex];
+    if (slot !== -1) return slot;
+
+    const level = this._levels[this._handleToLevel[instanceIndex]];
+    slot = level.liveCount++;
+    this._handleToSlot[instanceIndex] = slot;
+    level.slotToHandle[slot] = instanceIndex;
+    this.updateDrawCount(level);
+    return slot;
+  }
 
-    for (const meshInfo of this._meshInfos) {
-      this.applyTransformToMesh(instanceIndex, meshInfo);
+  /**
+   * Remove an instance from its level's live range by moving the last live instance into its slot
+   */
+  private releaseSlot(instanceIndex: number): void {
+    const slot = this._handleToSlot[instanceIndex];
+    if (slot === -1) return;
+
+    const level = this._levels[this._handleToLevel[instanceIndex]];
+    const last = --level.liveCount;
+    if (slot !== last) {
+      const movedHandle = level.slotToHandle[last];
+      for (const meshInfo of level.meshInfos) {
+        for (const attribute of this.getInstancedAttributes(meshInfo.instancedMesh)) {
+          const size = attribute.itemSize;
+          attribute.array.copyWithin(slot * size, last * size, last * size + size);
+        }
+      }
+      this._handleToSlot[movedHandle] = slot;
+      level.slotToHandle[slot] = movedHandle;
+      this.markSlotDirty(level, slot);
     }
+
+    this._handleToSlot[instanceIndex] = -1;
+    level.slotToHandle[last] = -1;
+    this.updateDrawCount(level);
   }
 
-  private applyTransformToMesh(instanceIndex: number, meshInfo: IMeshInfo): void {
-    const baseTransform = this._instanceTransforms[instanceIndex];
+  /**
+   * Draw only the live range; bounds are recomputed lazily by three.js
+   */
+  private updateDrawCount(level: ILevel): void {
+    for (const meshInfo of level.meshInfos) {
+      const mesh = meshInfo.instancedMesh;
+      mesh.count = level.liveCount;
+      mesh.boundingSphere = null;
+      mesh.boundingBox = null;
+    }
+  }
 
+  /**
+   * Compose the instance transform loaded into the _base temporaries with a mesh's relative transform
+   */
+  private applyTransformToMesh(slot: number, meshInfo: IMeshInfo): void {
     this._tempPosition.copy(meshInfo.relativePosition);
-    this._tempPosition.multiply(baseTransform.scale);
-    this._tempPosition.applyQuaternion(baseTransform.quaternion);
-    this._tempPosition.add(baseTransform.position);
+    this._tempPosition.multiply(this._baseScale);
+    this._tempPosition.applyQuaternion(this._baseQuaternion);
+    this._tempPosition.add(this._basePosition);
 
-    this._tempQuaternion.copy(baseTransform.quaternion);
+    this._tempQuaternion.copy(this._baseQuaternion);
     this._tempQuaternion.multiply(meshInfo.relativeRotation);
 
-    this._tempScale.copy(baseTransform.scale);
+    this._tempScale.copy(this._baseScale);
     this._tempScale.multiply(meshInfo.relativeScale);
 
     this._tempMatrix.compose(this._tempPosition, this._tempQuaternion, this._tempScale);
-    meshInfo.instancedMesh.setMatrixAt(instanceIndex, this._tempMatrix);
-    meshInfo.instancedMesh.instanceMatrix.needsUpdate = true;
+    meshInfo.instancedMesh.setMatrixAt(slot, this._tempMatrix);
   }
 
   // ============================================
@@ -178,42 +472,96 @@ export class MeshToInstancedMeshConverter {
       return;
     }
 
-    const transform = this._instanceTransforms[instanceIndex];
-    transform.position.copy(position);
-    transform.rotation.copy(rotation);
-    transform.scale.copy(scale);
-
+    this._tempQuaternion.setFromEuler(rotation);
+    this.writeTransform(instanceIndex, position, this._tempQuaternion, scale);
     this.updateInstanceTransform(instanceIndex);
   }
 
   setInstancePosition(instanceIndex: number, position: Vector3): void {
     if (instanceIndex < 0 || instanceIndex >= this._instanceCount) return;
-    this._instanceTransforms[instanceIndex].position.copy(position);
+    position.toArray(this._positions, instanceIndex * 3);
     this.updateInstanceTransform(instanceIndex);
   }
 
   setInstanceRotation(instanceIndex: number, rotation: Euler): void {
     if (instanceIndex < 0 || instanceIndex >= this._instanceCount) return;
-    this._instanceTransforms[instanceIndex].rotation.copy(rotation);
+    this._tempQuaternion.setFromEuler(rotation).toArray(this._quaternions, instanceIndex * 4);
     this.updateInstanceTransform(instanceIndex);
   }
 
   setInstanceScale(instanceIndex: number, scale: Vector3): void {
     if (instanceIndex < 0 || instanceIndex >= this._instanceCount) return;
-    this._instanceTransforms[instanceIndex].scale.copy(scale);
+    scale.toArray(this._scales, instanceIndex * 3);
     this.updateInstanceTransform(instanceIndex);
   }
 
   setInstanceMatrix(instanceIndex: number, matrix: Matrix4): void {
     if (instanceIndex < 0 || instanceIndex >= this._instanceCount) return;
 
-    const transform = this._instanceTransforms[instanceIndex];
-    matrix.decompose(transform.position, transform.quaternion, transform.scale);
-    transform.rotation.setFromQuaternion(transform.quaternion);
-
+    matrix.decompose(this._tempPosition, this._tempQuaternion, this._tempScale);
+    this.writeTransform(instanceIndex, this._tempPosition, this._tempQuaternion, this._tempScale);
     this.updateInstanceTransform(instanceIndex);
   }
 
+  /**
+   * Set transforms from packed matrices (16 floats per instance, column-major)
+   * @param instanceIndices - Target instance for each packed matrix
+   * @param matrices - Packed matrices, at least instanceIndices.length * 16 floats
+   * @param scale - Uniform multiplier applied to each matrix's scale (default: 1)
+   */
+  setInstanceMatrices(instanceIndices: ArrayLike<number>, matrices: Float32Array, scale: number = 1): void {
+    for (let i = 0; i < instanceIndices.length; i++) {
+      const instanceIndex = instanceIndices[i];
+      if (instanceIndex < 0 || instanceIndex >= this._instanceCount) continue;
+
+      this._tempMatrix.fromArray(matrices, i * 16);
+      this._tempMatrix.decompose(this._tempPosition, this._tempQuaternion, this._tempScale);
+      this._tempScale.multiplyScalar(scale);
+      this.writeTransform(instanceIndex, this._tempPosition, this._tempQuaternion, this._tempScale);
+
+      this.updateInstanceTransform(instanceIndex);
+    }
+  }
+
+  /**
+   * Set transforms from packed position, quaternion and scale
+   * (PACKED_TRANSFORM_STRIDE floats per instance: px, py, pz, qx, qy, qz, qw, sx, sy, sz)
+   * @param instanceIndices - Target instance for each packed transform
+   * @param transforms - Packed transforms, at least instanceIndices.length * PACKED_TRANSFORM_STRIDE floats
+   */
+  setInstanceTransformsPacked(instanceIndices: ArrayLike<number>, transforms: Float32Array): void {
+    for (let i = 0; i < instanceIndices.length; i++) {
+      const instanceIndex = instanceIndices[i];
+      if (instanceIndex < 0 || instanceIndex >= this._instanceCount) continue;
+
+      const offset = i * PACKED_TRANSFORM_STRIDE;
+      this._positions.set(transforms.subarray(offset, offset + 3), instanceIndex * 3);
+      this._quaternions.set(transforms.subarray(offset + 3, offset + 7), instanceIndex * 4);
+      this._scales.set(transforms.subarray(offset + 7, offset + 10), instanceIndex * 3);
+
+      this.updateInstanceTransform(instanceIndex);
+    }
+  }
+
+  /**
+   * Read transforms of several instances into a packed array (PACKED_TRANSFORM_STRIDE floats each)
+   */
+  getInstanceTransformsPacked(
+    instanceIndices: ArrayLike<number>,
+    target: Float32Array = new Float32Array(instanceIndices.length * PACKED_TRANSFORM_STRIDE)
+  ): Float32Array {
+    for (let i = 0; i < instanceIndices.length; i++) {
+      const instanceIndex = instanceIndices[i];
+      if (instanceIndex < 0 || instanceIndex >= this._instanceCount) continue;
+
+      const offset = i * PACKED_TRANSFORM_STRIDE;
+      target.set(this._positions.subarray(instanceIndex * 3, instanceIndex * 3 + 3), offset);
+      target.set(this._quaternions.subarray(instanceIndex * 4, instanceIndex * 4 + 4), offset + 3);
+      target.set(this._scales.subarray(instanceIndex * 3, instanceIndex * 3 + 3), offset + 7);
+    }
+    return target;
+  }
+
   /**
    * Batch update multiple instances
    */
@@ -225,31 +573,20 @@ export class MeshToInstancedMeshConverter {
   }>): void {
     for (const t of transforms) {
       if (t.instanceIndex >= 0 && t.instanceIndex < this._instanceCount) {
-        const transform = this._instanceTransforms[t.instanceIndex];
-        transform.position.copy(t.position);
-        transform.rotation.copy(t.rotation);
-        transform.scale.copy(t.scale);
-      }
-    }
-
-    for (const t of transforms) {
-      if (t.instanceIndex >= 0 && t.instanceIndex < this._instanceCount) {
+        this._tempQuaternion.setFromEuler(t.rotation);
+        this.writeTransform(t.instanceIndex, t.position, this._tempQuaternion, t.scale);
         this.updateInstanceTransform(t.instanceIndex);
       }
     }
   }
 
   /**
-   * Hide an instance by scaling to zero
+   * Hide an instance by removing it from the drawn range.
+   * Its transform is kept, and setting a transform or showInstance() makes it visible again.
    */
   hideInstance(instanceIndex: number): void {
     if (instanceIndex < 0 || instanceIndex >= this._instanceCount) return;
-
-    const zeroMatrix = new Matrix4().scale(new Vector3(0, 0, 0));
-    for (const meshInfo of this._meshInfos) {
-      meshInfo.instancedMesh.setMatrixAt(instanceIndex, zeroMatrix);
-      meshInfo.instancedMesh.instanceMatrix.needsUpdate = true;
-    }
+    this.releaseSlot(instanceIndex);
   }
 
   /**
@@ -260,12 +597,140 @@ export class MeshToInstancedMeshConverter {
     this.updateInstanceTransform(instanceIndex);
   }
 
+  /**
+   * Choose the geometry level that draws an instance.
+   * A visible instance moves to the new level's InstancedMeshes right away; a hidden one uses it when shown.
+   */
+  setInstanceLevel(instanceIndex: number, level: number): void {
+    if (instanceIndex < 0 || instanceIndex >= this._instanceCount) return;
+    if (level < 0 || level >= this._levels.length) {
+      console.error(`Invalid LOD level: ${level}`);
+      return;
+    }
+    if (this._handleToLevel[instanceIndex] === level) return;
+
+    const visible = this._handleToSlot[instanceIndex] !== -1;
+    this.releaseSlot(instanceIndex);
+    this._handleToLevel[instanceIndex] = level;
+    if (visible) this.updateInstanceTransform(instanceIndex);
+  }
+
+  /**
+   * Geometry level that draws (or would draw) an instance
+   */
+  getInstanceLevel(instanceIndex: number): number {
+    if (instanceIndex < 0 || instanceIndex >= this._instanceCount) return -1;
+    return this._handleToLevel[instanceIndex];
+  }
+
+  /**
+   * Number of geometry levels (1 + number of LOD sources)
+   */
+  getLevelCount(): number {
+    return this._levels.length;
+  }
+
+  /**
+   * Give every instance its own color through InstancedMesh.instanceColor (white until set)
+   */
+  enableInstanceColors(): void {
+    this.createInstanceAttribute(INSTANCE_COLOR, 3, 1);
+  }
+
+  /**
+   * Set an instance's color (enables instance colors on first use)
+   */
+  setInstanceColor(instanceIndex: number, color: Color): void {
+    if (instanceIndex < 0 || instanceIndex >= this._instanceCount) return;
+    const attribute = this.createInstanceAttribute(INSTANCE_COLOR, 3, 1);
+    color.toArray(attribute.values, instanceIndex * 3);
+    this.writeAttribute(attribute, instanceIndex);
+  }
+
+  /**
+   * Read an instance's color (white when instance colors are disabled)
+   */
+  getInstanceColor(instanceIndex: number, target: Color = new Color()): Color {
+    const attribute = this._instanceAttributes.find(entry => entry.name === INSTANCE_COLOR);
+    if (!attribute || instanceIndex < 0 || instanceIndex >= this._instanceCount) return target.setRGB(1, 1, 1);
+    return target.fromArray(attribute.values, instanceIndex * 3);
+  }
+
+  /**
+   * Add an InstancedBufferAttribute to every sub-mesh of every level, readable in shaders under `name`
+   * @param name - Attribute name
+   * @param itemSize - Floats per instance (1-4)
+   */
+  addInstanceAttribute(name: string, itemSize: number): void {
+    if (name === INSTANCE_COLOR) {
+      throw new Error(`${INSTANCE_COLOR} is reserved; use enableInstanceColors()`);
+    }
+    this.createInstanceAttribute(name, itemSize, 0);
+  }
+
+  /**
+   * Set an instance's value of a custom attribute
+   * @param value - A number, or itemSize numbers
+   */
+  setInstanceAttribute(instanceIndex: number, name: string, value: number | ArrayLike<number>): void {
+    if (instanceIndex < 0 || instanceIndex >= this._instanceCount) return;
+    const attribute = this.getInstanceAttributeEntry(name);
+    const offset = instanceIndex * attribute.itemSize;
+
+    if (typeof value === 'number') {
+      attribute.values[offset] = value;
+    } else {
+      for (let i = 0; i < attribute.itemSize; i++) {
+        attribute.values[offset + i] = value[i] ?? attribute.defaultValue;
+      }
+    }
+    this.writeAttribute(attribute, instanceIndex);
+  }
+
+  /**
+   * Read an instance's value of a custom attribute
+   */
+  getInstanceAttribute(instanceIndex: number, name: string, target: number[] = []): number[] {
+    const attribute = this.getInstanceAttributeEntry(name);
+    target.length = attribute.itemSize;
+    for (let i = 0; i < attribute.itemSize; i++) {
+      target[i] = instanceIndex >= 0 && instanceIndex < this._instanceCount
+        ? attribute.values[instanceIndex * attribute.itemSize + i]
+        : attribute.defaultValue;
+    }
+    return target;
+  }
+
+  /**
+   * Replace the materials of every InstancedMesh, e.g. with patched copies.
+   * `replace` is called once per distinct source material; the source meshes keep theirs.
+   * The caller owns the returned materials.
+   */
+  replaceMaterials(replace: (material: Material) => Material): void {
+    const replaced = new Map<Material, Material>();
+    const get = (material: Material): Material => {
+      let replacement = replaced.get(material);
+      if (!replacement) {
+        replacement = replace(material);
+        replaced.set(material, replacement);
+      }
+      return replacement;
+    };
+
+    for (const level of this._levels) {
+      for (const meshInfo of level.meshInfos) {
+        const material = meshInfo.originalMesh.material;
+        meshInfo.instancedMesh.material = Array.isArray(material) ? material.map(get) : get(material);
+      }
+    }
+  }
+
   /**
    * Add all instanced meshes to a scene
    */
   addToScene(scene: Scene): void {
-    for (const meshInfo of this._meshInfos) {
-      scene.add(meshInfo.instancedMesh);
+    for (const mesh of this.getInstancedMeshes()) {
+      scene.add(mesh);
     }
   }
 
@@ -273,67 +738,282 @@ export class MeshToInstancedMeshConverter {
    * Remove all instanced meshes from a scene
    */
   removeFromScene(scene: Scene): void {
-    for (const meshInfo of this._meshInfos) {
-      scene.remove(meshInfo.instancedMesh);
+    for (const mesh of this.getInstancedMeshes()) {
+      scene.remove(mesh);
     }
   }
 
   /**
-   * Get all instanced meshes
+   * Get the instanced meshes of one geometry level, or of all levels
    */
-  getInstancedMeshes(): InstancedMesh[] {
-    return this._meshInfos.map(info => info.instancedMesh);
+  getInstancedMeshes(level?: number): InstancedMesh[] {
+    const levels = level === undefined ? this._levels : this._levels.slice(level, level + 1);
+    return levels.flatMap(entry => entry.meshInfos.map(info => info.instancedMesh));
   }
 
   getInstanceCount(): number {
     return this._instanceCount;
   }
 
-  getInstanceTransform(instanceIndex: number): ITransformationData | null {
+  /**
+   * Queue GPU uploads for the slots written since the last flush.
+   * Contiguous slots are merged into one update range per attribute, so
+   * activating a chunk uploads only that chunk's slots instead of whole buffers.
+   * Call once per frame when driving the converter directly.
+   */
+  flushUpdates(): IUploadStats {
+    this._uploadStats = { bytes: this._reallocatedBytes, ranges: 0 };
+    this._reallocatedBytes = 0;
+    for (const level of this._levels) {
+      this.flushLevel(level);
+    }
+    return this._uploadStats;
+  }
+
+  private flushLevel(level: ILevel): void {
+    const slots = level.dirtySlots;
+    if (slots.length === 0) return;
+
+    slots.sort((a, b) => a - b);
+
+    // [start, count] pairs over live slots; freed tail slots are not drawn
+    const ranges: number[] = [];
+    for (const slot of slots) {
+      level.dirtyFlags[slot] = 0;
+      if (slot >= level.liveCount) continue;
+
+      const last = ranges.length - 2;
+      if (last >= 0 && ranges[last] + ranges[last + 1] === slot) {
+        ranges[last + 1]++;
+      } else {
+        ranges.push(slot, 1);
+      }
+    }
+    level.dirtySlots = [];
+    if (ranges.length === 0) return;
+
+    for (const meshInfo of level.meshInfos) {
+      for (const attribute of this.getInstancedAttributes(meshInfo.instancedMesh)) {
+        this.addUpdateRanges(attribute, ranges);
+      }
+    }
+  }
+
+  private addUpdateRanges(attribute: BufferAttribute, ranges: number[]): void {
+    const size = attribute.itemSize;
+    const bytesPerElement = (attribute.array as Float32Array).BYTES_PER_ELEMENT;
+
+    // Ranges not yet consumed by the renderer (e.g. while culled) are kept and merged into
+    if (attribute.updateRanges.length + ranges.length / 2 > MAX_UPDATE_RANGES) {
+      let start = ranges[0] * size;
+      let end = (ranges[ranges.length - 2] + ranges[ranges.length - 1]) * size;
+      for (const range of attribute.updateRanges) {
+        start = Math.min(start, range.start);
+        end = Math.max(end, range.start + range.count);
+      }
+      // Kept ranges were counted when they were added, so only the rest of the span is new
+      const counted = this.getCoveredLength(attribute.updateRanges);
+      attribute.clearUpdateRanges();
+      attribute.addUpdateRange(start, end - start);
+      this._uploadStats.bytes += (end - start - counted) * bytesPerElement;
+      this._uploadStats.ranges++;
+    } else {
+      for (let i = 0; i < ranges.length; i += 2) {
+        attribute.addUpdateRange(ranges[i] * size, ranges[i + 1] * size);
+        this._uploadStats.bytes += ranges[i + 1] * size * bytesPerElement;
+        this._uploadStats.ranges++;
+      }
+    }
+
+    attribute.needsUpdate = true;
+  }
+
+  /**
+   * Number of elements covered by a set of possibly overlapping update ranges
+   */
+  private getCoveredLength(ranges: Array<{ start: number; count: number }>): number {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    let covered = 0;
+    let reached = -Infinity;
+    for (const range of sorted) {
+      const start = Math.max(range.start, reached);
+      const end = range.start + range.count;
+      if (end > start) covered += end - start;
+      reached = Math.max(reached, end);
+    }
+    return covered;
+  }
+
+  /**
+   * Upload totals of the latest flushUpdates()
+   */
+  getUploadStats(): IUploadStats {
+    return { ...this._uploadStats };
+  }
+
+  /**
+   * Number of visible instances in one geometry level (its InstancedMeshes' draw count), or in all levels
+   */
+  getLiveCount(level?: number): number {
+    if (level !== undefined) return this._levels[level]?.liveCount ?? 0;
+    return this._levels.reduce((total, entry) => total + entry.liveCount, 0);
+  }
+
+  /**
+   * Whether an instance is currently drawn
+   */
+  isInstanceVisible(instanceIndex: number): boolean {
+    return instanceIndex >= 0 && instanceIndex < this._instanceCount && this._handleToSlot[instanceIndex] !== -1;
+  }
+
+  /**
+   * Slot an instance currently occupies in its level's InstancedMesh buffers (-1 when hidden).
+   * Slots change as other instances are hidden; use it only for immediate buffer access.
+   */
+  getInstanceSlot(instanceIndex: number): number {
+    if (instanceIndex < 0 || instanceIndex >= this._instanceCount) return -1;
+    return this._handleToSlot[instanceIndex];
+  }
+
+  /**
+   * Read an instance's transform from the packed arrays.
+   * Without a target, a shared view object is filled and returned; it is overwritten by the next call
+   * and editing it does not change the instance (use the setters).
+   */
+  getInstanceTransform(instanceIndex: number, target: ITransformationData = this._transformView): ITransformationData | null {
     if (instanceIndex < 0 || instanceIndex >= this._instanceCount) return null;
-    return this._instanceTransforms[instanceIndex];
+
+    target.position.fromArray(this._positions, instanceIndex * 3);
+    target.quaternion.fromArray(this._quaternions, instanceIndex * 4);
+    target.scale.fromArray(this._scales, instanceIndex * 3);
+    target.rotation.setFromQuaternion(target.quaternion);
+    return target;
   }
 
   getMeshCount(): number {
-    return this._meshInfos.length;
+    return this._levels.reduce((total, level) => total + level.meshInfos.length, 0);
   }
 
   /**
-   * Dynamically resize instance count
+   * Number of instances the GPU buffers can hold
+   */
+  getCapacity(): number {
+    const meshInfos = this._levels[0]?.meshInfos ?? [];
+    return meshInfos.length > 0 ? meshInfos[0].instancedMesh.instanceMatrix.count : this._instanceCount;
+  }
+
+  /**
+   * Dynamically resize instance count.
+   * Growing past the buffer capacity reallocates every per-instance attribute and copies
+   * the live range; shrinking hides the removed instances and keeps the buffers.
    */
   setInstanceCount(newCount: number): void {
     if (newCount === this._instanceCount) return;
 
-    if (newCount > this._instanceCount) {
-      const toAdd = newCount - this._instanceCount;
-      for (let i = 0; i < toAdd; i++) {
-        this._instanceTransforms.push({
-          position: new Vector3(0, 0, 0),
-          rotation: new Euler(0, 0, 0),
-          quaternion: new Quaternion(),
-          scale: new Vector3(1, 1, 1)
-        });
+    if (newCount > this.getCapacity()) {
+      this.reallocateBuffers(newCount);
+    }
+
+    if (newCount < this._instanceCount) {
+      for (let i = newCount; i < this._instanceCount; i++) {
+        this.releaseSlot(i);
       }
-    } else {
-      this._instanceTransforms.splice(newCount);
+    }
+
+    const kept = Math.min(newCount, this._instanceCount);
+    const positions = new Float32Array(newCount * 3);
+    const quaternions = new Float32Array(newCount * 4);
+    const scales = new Float32Array(newCount * 3);
+    positions.set(this._positions.subarray(0, kept * 3));
+    quaternions.set(this._quaternions.subarray(0, kept * 4));
+    scales.set(this._scales.subarray(0, kept * 3));
+    this._positions = positions;
+    this._quaternions = quaternions;
+    this._scales = scales;
+    this.resetTransforms(kept, newCount);
+
+    for (const attribute of this._instanceAttributes) {
+      const values = new Float32Array(newCount * attribute.itemSize).fill(attribute.defaultValue);
+      values.set(attribute.values.subarray(0, kept * attribute.itemSize));
+      attribute.values = values;
+    }
+
+    const handleToSlot = new Int32Array(newCount).fill(-1);
+    const handleToLevel = new Uint8Array(newCount);
+    handleToSlot.set(this._handleToSlot.subarray(0, kept));
+    handleToLevel.set(this._handleToLevel.subarray(0, kept));
+    this._handleToSlot = handleToSlot;
+    this._handleToLevel = handleToLevel;
+
+    for (const level of this._levels) {
+      const slotToHandle = new Int32Array(newCount).fill(-1);
+      const dirtyFlags = new Uint8Array(newCount);
+      slotToHandle.set(level.slotToHandle.subarray(0, kept));
+      dirtyFlags.set(level.dirtyFlags.subarray(0, kept));
+      level.slotToHandle = slotToHandle;
+      level.dirtyFlags = dirtyFlags;
+      level.dirtySlots = level.dirtySlots.filter(slot => slot < newCount);
+      this.updateDrawCount(level);
     }
 
     this._instanceCount = newCount;
+  }
 
-    for (const meshInfo of this._meshInfos) {
-      meshInfo.instancedMesh.count = newCount;
-      meshInfo.instancedMesh.instanceMatrix.needsUpdate = true;
+  private reallocateBuffers(capacity: number): void {
+    for (const level of this._levels) {
+      for (const meshInfo of level.meshInfos) {
+        const mesh = meshInfo.instancedMesh;
+        const previous = mesh.geometry;
+        const retired = [mesh.instanceMatrix];
+
+        mesh.instanceMatrix = this.growAttribute(mesh.instanceMatrix, capacity, level.liveCount);
+        if (mesh.instanceColor) {
+          retired.push(mesh.instanceColor);
+          mesh.instanceColor = this.growAttribute(mesh.instanceColor, capacity, level.liveCount);
+        }
+
+        // Swap in a new geometry copy, so the old one is released with the buffers drawn through it
+        const geometry = this.shareGeometry(previous);
+        for (const [name, attribute] of Object.entries(previous.attributes)) {
+          if (attribute instanceof InstancedBufferAttribute) {
+            geometry.setAttribute(name, this.growAttribute(attribute, capacity, level.liveCount));
+          }
+        }
+        mesh.geometry = geometry;
+        this.releaseSharedGeometry(previous, retired);
+      }
     }
   }
 
+  private growAttribute(attribute: InstancedBufferAttribute, capacity: number, liveCount: number): InstancedBufferAttribute {
+    const source = attribute.array as Float32Array;
+    const ArrayType = source.constructor as Float32ArrayConstructor;
+    const array = new ArrayType(capacity * attribute.itemSize);
+    array.set(source.subarray(0, liveCount * attribute.itemSize));
+
+    const grown = new InstancedBufferAttribute(array, attribute.itemSize, attribute.normalized, attribute.meshPerAttribute);
+    grown.setUsage(attribute.usage);
+    grown.name = attribute.name;
+    this._reallocatedBytes += array.byteLength;
+    return grown;
+  }
+
   /**
    * Dispose all resources
    */
   dispose(): void {
-    for (const meshInfo of this._meshInfos) {
-      meshInfo.instancedMesh.dispose();
+    for (const level of this._levels) {
+      for (const meshInfo of level.meshInfos) {
+        const mesh = meshInfo.instancedMesh;
+        mesh.dispose();
+        this.releaseSharedGeometry(mesh.geometry);
+      }
     }
-    this._meshInfos = [];
-    this._instanceTransforms = [];
+    this._levels = [];
+    this._instanceAttributes = [];
+    this._positions = new Float32Array(0);
+    this._quaternions = new Float32Array(0);
+    this._scales = new Float32Array(0);
+    this._instanceCount = 0;
   }
 }
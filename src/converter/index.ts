@@ -1,2 +1,2 @@
-export { MeshToInstancedMeshConverter } from './MeshToInstancedMeshConverter';
-export type { ITransformationData } from './MeshToInstancedMeshConverter';
+export { MeshToInstancedMeshConverter, PACKED_TRANSFORM_STRIDE } from './MeshToInstancedMeshConverter';
+export type { ITransformationData, IUploadStats } from './MeshToInstancedMeshConverter';
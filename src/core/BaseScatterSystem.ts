@@ -1,34 +1,153 @@
 import * as THREE from 'three';
-import { BaseScatterConfig, RequiredScatterConfig } from './types';
+import {
+  BaseScatterConfig,
+  InstanceAttributeContext,
+  InstanceColorConfig,
+  LODLevel,
+  PlacementRule,
+  RequiredScatterConfig,
+  ScatterStats,
+  ScatterVariant,
+  TransformModifier,
+  WindConfig,
+  ZoneShape
+} from './types';
 import { ChunkData } from './ChunkData';
-import { InstancePool, PerlinNoise, SeededRandom } from '../utils';
+import { ChunkCandidates, ChunkGenerator, ChunkGeneratorRegistry, ChunkTask, DensityMapSettings, GenerationSettings } from './ChunkGenerator';
+import type { PlacementRuleSettings } from './PlacementRules';
+import type { TransformModifierSettings } from './TransformModifiers';
+import { ZoneSet } from './Zones';
+import {
+  CachedChunk,
+  ChunkTransformCache,
+  GeometryBatcher,
+  ImageSampler,
+  InstancePool,
+  SeededRandom,
+  WIND_PHASE_ATTRIBUTE,
+  WindMaterialPatch
+} from '../utils';
 import { MeshToInstancedMeshConverter } from '../converter/MeshToInstancedMeshConverter';
 
-// Camera reference passed during update
-let currentCamera: THREE.Camera | null = null;
+/**
+ * Chunk waiting in the build queue
+ */
+interface QueuedChunk {
+  key: string;
+  x: number;
+  z: number;
+  extraData?: unknown;
+  /** Lower values build first */
+  priority: number;
+}
+
+/**
+ * Chunk generated by the worker pool, waiting to be shown within the streaming budget
+ */
+interface ReadyChunk {
+  entry: QueuedChunk;
+  chunk: ChunkData;
+  task: ChunkTask;
+  candidates: CachedChunk;
+  startTime: number;
+}
+
+const now = (): number => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+/** Variant indices are stored per candidate as bytes */
+const MAX_VARIANTS = 256;
+
+/** Below this, a reduced LOD band's density drops to zero */
+const MIN_LOD_BAND_FACTOR = 1 / 16;
+
+/** Region covering the whole world */
+const EVERYWHERE = new THREE.Box2(
+  new THREE.Vector2(-Infinity, -Infinity),
+  new THREE.Vector2(Infinity, Infinity)
+);
+
+/** Keeps instance attribute random values independent of placement hashes */
+const ATTRIBUTE_SALT = 0x5f3759df;
+const WIND_PHASE_SALT = 0x2545f491;
 
 /**
  * Abstract base class for all scatter systems.
  * Extends THREE.Group so it can be added to any scene.
- * Call update(camera) each frame for LOD calculations.
+ * Call update(camera) each frame for LOD calculations, or
+ * update([cameraA, cameraB]) to stream for several views at once.
  */
 export abstract class BaseScatterSystem extends THREE.Group {
   protected config: RequiredScatterConfig;
+  /** Converter of the first source variant */
   protected converter: MeshToInstancedMeshConverter;
+  /** One converter per source variant; instance ids are shared across them */
+  protected converters: MeshToInstancedMeshConverter[];
+  protected variantIds: string[];
   protected instancePool: InstancePool;
   protected chunks: Map<string, ChunkData> = new Map();
   protected isInitialized: boolean = false;
   protected debugGroup: THREE.Group;
   protected debugMaterial: THREE.LineBasicMaterial;
 
+  // View state from the latest update(), one entry per camera
+  protected cameras: THREE.Camera[] = [];
+  protected viewerPositions: THREE.Vector3[] = [];
+
   // Frustum culling
-  protected frustum: THREE.Frustum = new THREE.Frustum();
+  protected frustums: THREE.Frustum[] = [];
   protected frustumMatrix: THREE.Matrix4 = new THREE.Matrix4();
   protected frustumCullingEnabled: boolean = true;
 
   // Density map
-  protected densityMapTexture: THREE.Texture | null = null;
-  protected densityMapData: Uint8Array | null = null;
+  protected densityMapSampler: ImageSampler | null = null;
+  /** Loaded pixels of each mask placement rule (null for other rules) */
+  protected placementMaskSamplers: Array<ImageSampler | null> = [];
+
+  // Time-sliced chunk population
+  protected chunkQueue: Map<string, QueuedChunk> = new Map();
+
+  // Chunk generation (main thread or worker pool)
+  protected generator: ChunkGenerator | null = null;
+  protected inFlightChunks: Map<string, ChunkTask> = new Map();
+  protected readyChunks: Map<string, ReadyChunk> = new Map();
+
+  // Transforms of recently hidden chunks
+  protected transformCache: ChunkTransformCache;
+
+  // Pool exhaustion: density factor per LOD band under 'reduce-far-lod', and whether the last update ran short
+  protected lodBandFactors: number[] = [];
+  private poolDenied: boolean = false;
+
+  // Geometry LOD: converter level drawn in each LOD band, per variant (empty without LOD sources)
+  protected geometryBandLevels: number[][] = [];
+
+  // Hierarchical LOD: bakes distant chunks into merged meshes
+  protected hlodBatcher: GeometryBatcher | null = null;
+
+  // Wind animation: patched material copies sharing one set of uniforms
+  protected windPatch: WindMaterialPatch | null = null;
+
+  // Footprint radius of each instance in the occupancy map
+  protected occupancyRadius: number = 0;
+
+  // Runtime inclusion and exclusion zones
+  protected zones: ZoneSet = new ZoneSet();
+  private _tempCenter: THREE.Vector3 = new THREE.Vector3();
+  private _tempNormal: THREE.Vector3 = new THREE.Vector3();
+  private _tempBounds: THREE.Box3 = new THREE.Box3();
+  private _singleId: number[] = [0];
+  private _color: THREE.Color = new THREE.Color();
+  private _hsl: { h: number; s: number; l: number } = { h: 0, s: 0, l: 0 };
+  private _attributeContext: InstanceAttributeContext = {
+    position: new THREE.Vector3(),
+    normal: new THREE.Vector3(),
+    rng: new SeededRandom(0),
+    noise: 0,
+    density: 1,
+    chunkKey: '',
+    distance: 0,
+    variant: ''
+  };
 
   constructor(config: BaseScatterConfig) {
     super();
@@ -41,13 +160,17 @@ export abstract class BaseScatterSystem extends THREE.Group {
       threshold: 0.3,
       power: 1.0,
       offset: 0.0,
-      scaleVariation: 0.2
+      scaleVariation: 0.2,
+      perChunkSeed: false
     };
 
     this.config = {
       ...config,
       maxInstances: config.maxInstances ?? 10000,
       chunkSize: config.chunkSize ?? 64,
+      deactivationMargin: config.deactivationMargin ?? (config.chunkSize ?? 64) / 2,
+      placementCellSize: config.placementCellSize ?? 16,
+      distribution: config.distribution ?? 'random',
       scaleRange: config.scaleRange ?? [0.8, 1.2],
       rotationRange: config.rotationRange ?? [0, Math.PI * 2],
       heightOffset: config.heightOffset ?? 0,
@@ -55,14 +178,70 @@ export abstract class BaseScatterSystem extends THREE.Group {
       randomSeed: config.randomSeed ?? Date.now(),
       showChunksDebug: config.showChunksDebug ?? false,
       noiseDistribution: { ...defaultNoiseConfig, ...(config.noiseDistribution || {}) },
+      streaming: {
+        frameBudgetMs: config.streaming?.frameBudgetMs ?? Infinity,
+        instanceBudget: config.streaming?.instanceBudget ?? Infinity
+      },
+      chunkCache: {
+        maxChunks: config.chunkCache?.maxChunks ?? 64,
+        maxBytes: config.chunkCache?.maxBytes ?? 32 * 1024 * 1024
+      },
+      poolExhaustion: config.poolExhaustion ?? (config.capacityGrowth?.enabled ? 'grow' : 'fail'),
+      capacityGrowth: {
+        enabled: config.capacityGrowth?.enabled ?? false,
+        growthFactor: config.capacityGrowth?.growthFactor ?? 2,
+        maxCapacity: config.capacityGrowth?.maxCapacity ?? (config.maxInstances ?? 10000) * 8
+      },
+      instanceAttributes: config.instanceAttributes ?? [],
+      placementRules: config.placementRules ?? [],
+      transformModifiers: config.transformModifiers ?? [],
       events: config.events ?? {}
     } as RequiredScatterConfig;
 
     this.instancePool = new InstancePool(this.config.maxInstances);
-    this.converter = new MeshToInstancedMeshConverter(
-      this.config.source,
-      this.config.maxInstances
+    this.transformCache = new ChunkTransformCache(
+      this.config.chunkCache.maxChunks,
+      this.config.chunkCache.maxBytes
     );
+    const variants: ScatterVariant[] = Array.isArray(config.source)
+      ? config.source
+      : [{ object: config.source, weight: 1 }];
+    if (variants.length === 0 || variants.length > MAX_VARIANTS) {
+      throw new Error(`Scatter source needs 1 to ${MAX_VARIANTS} variants, got ${variants.length}`);
+    }
+    this.variantIds = variants.map((variant, index) => variant.id ?? String(index));
+    this.validatePlacementRules(this.config.placementRules);
+    const lodLevels = this.config.lod?.levels ?? [];
+    const variantLODSources = this.variantIds.map(id => this.getLODSources(lodLevels, id));
+    this.converters = variants.map((variant, index) => new MeshToInstancedMeshConverter(
+      variant.object,
+      this.config.maxInstances,
+      variantLODSources[index].sources
+    ));
+    this.converter = this.converters[0];
+    for (const converter of this.converters) {
+      if (this.config.instanceColor) converter.enableInstanceColors();
+      for (const attribute of this.config.instanceAttributes) {
+        converter.addInstanceAttribute(attribute.name, attribute.itemSize);
+      }
+    }
+    if (this.config.wind) this.initializeWind(this.config.wind);
+    if (this.config.occupancy) {
+      const { map, priority, radius } = this.config.occupancy;
+      this.occupancyRadius = radius ?? this.getSourceSpacing() / 2;
+      map.register(this, priority, this.occupancyRadius, this.config.chunkSize, this.getChunkSpill());
+    }
+    if (variantLODSources.some(entry => entry.sources.length > 0)) {
+      this.geometryBandLevels = variantLODSources.map(entry => entry.bandLevels);
+    }
+    if (this.config.hlod) {
+      const hlodSource = this.config.hlod.source;
+      this.hlodBatcher = new GeometryBatcher(variants.map((variant, index) => {
+        const source = hlodSource instanceof THREE.Object3D ? hlodSource : hlodSource?.[this.variantIds[index]];
+        const lodSources = variantLODSources[index].sources;
+        return source ?? lodSources[lodSources.length - 1] ?? variant.object;
+      }));
+    }
 
     this.debugGroup = new THREE.Group();
     this.debugMaterial = new THREE.LineBasicMaterial({
@@ -89,18 +268,15 @@ export abstract class BaseScatterSystem extends THREE.Group {
   protected abstract updateChunks(): void;
 
   /**
-   * Populate a chunk with instances
-   * @param chunk - Chunk data to populate
-   * @param centerX - Chunk center X coordinate
-   * @param centerZ - Chunk center Z coordinate
-   * @param extraData - Optional system-specific data
+   * Registered chunk generator type implementing this system's placement
+   */
+  protected abstract readonly generatorType: string;
+
+  /**
+   * Parameters for this system's chunk generator.
+   * Must be structured-cloneable whenever canGenerateInWorker() returns true.
    */
-  protected abstract populateChunk(
-    chunk: ChunkData,
-    centerX: number,
-    centerZ: number,
-    extraData?: unknown
-  ): void;
+  protected abstract getGeneratorParams(): unknown;
 
   // ============================================
   // Public API
@@ -112,93 +288,230 @@ export abstract class BaseScatterSystem extends THREE.Group {
    */
   async init(): Promise<void> {
     // Load density map if configured
-    if (this.config.densityMap?.textureUrl) {
+    if (this.config.densityMap?.source || this.config.densityMap?.textureUrl) {
       await this.loadDensityMap();
     }
+    await this.loadPlacementMasks();
 
     await this.initializeDistribution();
+    this.refreshGenerator();
     // Add all instanced meshes to this Group
-    for (const mesh of this.converter.getInstancedMeshes()) {
-      this.add(mesh);
+    for (const converter of this.converters) {
+      for (const mesh of converter.getInstancedMeshes()) {
+        this.add(mesh);
+      }
     }
     this.isInitialized = true;
     if (this.config.showChunksDebug) this.updateDebugVisuals();
   }
 
   /**
-   * Load density map texture and extract pixel data
+   * Load density map pixels from the configured source
    */
   protected async loadDensityMap(): Promise<void> {
-    if (!this.config.densityMap?.textureUrl) return;
-
-    const loader = new THREE.TextureLoader();
-    this.densityMapTexture = await loader.loadAsync(this.config.densityMap.textureUrl);
+    const densityMap = this.config.densityMap;
+    const source = densityMap?.source ?? densityMap?.textureUrl;
+    if (!source) return;
 
-    const canvas = document.createElement('canvas');
-    const img = this.densityMapTexture.image as HTMLImageElement;
-    canvas.width = img.width;
-    canvas.height = img.height;
-    const ctx = canvas.getContext('2d')!;
-    ctx.drawImage(img, 0, 0);
-    this.densityMapData = new Uint8Array(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+    this.densityMapSampler = await ImageSampler.load(source, this.config.imageDecoder);
   }
 
   /**
-   * Sample density map at world position (returns 0-1)
+   * Sample density map at world position (returns 0-1, or outOfBoundsValue outside worldBounds)
    */
   protected sampleDensityMap(worldX: number, worldZ: number): number {
-    if (!this.densityMapData || !this.densityMapTexture || !this.config.densityMap) return 1.0;
+    return this.generator?.sampleDensity(worldX, worldZ) ?? 1.0;
+  }
+
+  /**
+   * Density map pixels and options for the chunk generator
+   */
+  protected getDensityMapSettings(): DensityMapSettings | null {
+    const densityMap = this.config.densityMap;
+    if (!this.densityMapSampler || !densityMap) return null;
+
+    const bounds = densityMap.worldBounds;
+    return {
+      image: this.densityMapSampler.toRawImageData(),
+      bounds: [bounds.min.x, bounds.min.y, bounds.max.x, bounds.max.y],
+      channel: densityMap.channel ?? 'r',
+      multiplier: densityMap.multiplier ?? 1.0,
+      filter: densityMap.filter ?? 'nearest',
+      outOfBoundsValue: densityMap.outOfBoundsValue ?? 1.0,
+      invert: densityMap.invert ?? false
+    };
+  }
 
-    const bounds = this.config.densityMap.worldBounds;
-    const u = (worldX - bounds.min.x) / (bounds.max.x - bounds.min.x);
-    const v = (worldZ - bounds.min.y) / (bounds.max.y - bounds.min.y);
+  /**
+   * Load the pixels of every mask placement rule
+   */
+  protected async loadPlacementMasks(): Promise<void> {
+    this.placementMaskSamplers = await Promise.all(this.config.placementRules.map(rule =>
+      rule.type === 'mask'
+        ? ImageSampler.load((rule.source ?? rule.textureUrl)!, this.config.imageDecoder)
+        : null
+    ));
+  }
 
-    if (u < 0 || u > 1 || v < 0 || v > 1) return 1.0;
+  private validatePlacementRules(rules: PlacementRule[]): void {
+    for (const rule of rules) {
+      if (rule.type === 'mask' && !rule.source && !rule.textureUrl) {
+        throw new Error('Mask placement rule needs a textureUrl or source');
+      }
+    }
+  }
 
-    const img = this.densityMapTexture.image as HTMLImageElement;
-    const px = Math.floor(u * (img.width - 1));
-    const py = Math.floor((1 - v) * (img.height - 1));
-    const idx = (py * img.width + px) * 4;
+  /**
+   * Placement rules in the generator's worker-transferable form
+   */
+  protected getPlacementRuleSettings(): PlacementRuleSettings[] {
+    const point = new THREE.Vector3();
+
+    return this.config.placementRules.map((rule, index): PlacementRuleSettings => {
+      switch (rule.type) {
+        case 'altitude':
+          return { type: 'altitude', min: rule.min ?? -Infinity, max: rule.max ?? Infinity };
+        case 'slope':
+          return { type: 'slope', min: rule.min ?? 0, max: rule.max ?? 90 };
+        case 'noise':
+          return {
+            type: 'noise',
+            threshold: rule.threshold,
+            scale: rule.scale ?? 0.1,
+            invert: rule.invert ?? false,
+            seed: rule.seed ?? 0
+          };
+        case 'mask': {
+          const bounds = rule.worldBounds;
+          return {
+            type: 'mask',
+            image: this.placementMaskSamplers[index]!.toRawImageData(),
+            bounds: [bounds.min.x, bounds.min.y, bounds.max.x, bounds.max.y],
+            channel: rule.channel ?? 'r',
+            threshold: rule.threshold ?? 0.5,
+            outOfBoundsValue: rule.outOfBoundsValue ?? 1,
+            invert: rule.invert ?? false
+          };
+        }
+        case 'distance': {
+          // Objects are measured from their current world position, in this system's space
+          const points = new Float32Array(rule.targets.length * 2);
+          rule.targets.forEach((target, i) => {
+            if (target instanceof THREE.Object3D) this.worldToLocal(target.getWorldPosition(point));
+            else point.copy(target);
+            points[i * 2] = point.x;
+            points[i * 2 + 1] = point.z;
+          });
+          return { type: 'distance', points, min: rule.min ?? 0, max: rule.max ?? Infinity };
+        }
+        case 'region': {
+          const { box, sphere, polygon } = rule;
+          return {
+            type: 'region',
+            inside: rule.mode === 'inside',
+            box: box ? [box.min.x, box.min.y, box.min.z, box.max.x, box.max.y, box.max.z] : null,
+            sphere: sphere ? [sphere.center.x, sphere.center.y, sphere.center.z, sphere.radius] : null,
+            polygon: polygon ? new Float32Array(polygon.flat()) : null
+          };
+        }
+        case 'custom':
+          return { type: 'custom', predicate: rule.predicate };
+      }
+    });
+  }
+
+  /**
+   * Replace the placement rules and regenerate (mask textures are loaded first)
+   */
+  async setPlacementRules(rules: PlacementRule[]): Promise<void> {
+    this.validatePlacementRules(rules);
+    this.config.placementRules = rules;
+    await this.loadPlacementMasks();
+    this.regenerateAll();
+  }
 
-    const channelOffset = { 'r': 0, 'g': 1, 'b': 2, 'a': 3 };
-    const channel = this.config.densityMap.channel ?? 'r';
-    const value = this.densityMapData[idx + channelOffset[channel]] / 255;
+  /**
+   * Transform modifiers in the generator's worker-transferable form
+   */
+  protected getTransformModifierSettings(): TransformModifierSettings[] {
+    return this.config.transformModifiers.map((modifier): TransformModifierSettings => {
+      switch (modifier.type) {
+        case 'alignToNormal':
+          return { type: 'alignToNormal', amount: modifier.amount ?? 1 };
+        case 'scale':
+          return { type: 'scale', x: modifier.x ?? [1, 1], y: modifier.y ?? [1, 1], z: modifier.z ?? [1, 1] };
+        case 'faceToward':
+          return { type: 'faceToward', target: modifier.target.toArray(), away: modifier.away ?? false };
+        default:
+          return modifier;
+      }
+    });
+  }
 
-    return value * (this.config.densityMap.multiplier ?? 1.0);
+  /**
+   * Replace the transform modifiers and regenerate
+   */
+  setTransformModifiers(modifiers: TransformModifier[]): void {
+    this.config.transformModifiers = modifiers;
+    this.regenerateAll();
   }
 
   /**
    * Update the scatter system based on camera position.
    * Call this every frame in your render loop.
-   * @param camera - The camera to use for visibility calculations
+   * Passing several cameras (split-screen, minimap, XR eyes) activates the union
+   * of chunks visible from any view and computes LOD from the nearest viewer.
+   * @param camera - The camera, or cameras, to use for visibility calculations
    */
-  update(camera: THREE.Camera): void {
+  update(camera: THREE.Camera | THREE.Camera[]): void {
     if (!this.isInitialized) return;
-    // Set the camera for subclasses to use
-    currentCamera = camera;
-    // Update frustum for culling
-    this.updateFrustum(camera);
+    const cameras = Array.isArray(camera) ? camera : [camera];
+    if (cameras.length === 0) return;
+    this.windPatch?.update(now());
+    // Update view positions and frustums for culling
+    this.updateViews(cameras);
     this.updateChunks();
+    this.processChunkQueue();
+    this.updateChunkLODs();
+    for (const converter of this.converters) {
+      converter.flushUpdates();
+    }
   }
 
   /**
-   * Update the view frustum from camera
+   * Update viewer positions and view frustums from cameras
    */
-  protected updateFrustum(camera: THREE.Camera): void {
-    camera.updateMatrixWorld();
-    this.frustumMatrix.multiplyMatrices(
-      camera.projectionMatrix,
-      camera.matrixWorldInverse
-    );
-    this.frustum.setFromProjectionMatrix(this.frustumMatrix);
+  protected updateViews(cameras: THREE.Camera[]): void {
+    this.cameras = cameras;
+
+    while (this.viewerPositions.length < cameras.length) {
+      this.viewerPositions.push(new THREE.Vector3());
+      this.frustums.push(new THREE.Frustum());
+    }
+    this.viewerPositions.length = cameras.length;
+    this.frustums.length = cameras.length;
+
+    for (let i = 0; i < cameras.length; i++) {
+      const camera = cameras[i];
+      camera.updateMatrixWorld();
+      this.viewerPositions[i].setFromMatrixPosition(camera.matrixWorld);
+      this.frustumMatrix.multiplyMatrices(
+        camera.projectionMatrix,
+        camera.matrixWorldInverse
+      );
+      this.frustums[i].setFromProjectionMatrix(this.frustumMatrix);
+    }
   }
 
   /**
-   * Check if a bounding box is visible in the frustum
+   * Check if a bounding box is visible in any view frustum
    */
   protected isChunkInFrustum(bounds: THREE.Box3): boolean {
     if (!this.frustumCullingEnabled) return true;
-    return this.frustum.intersectsBox(bounds);
+    for (const frustum of this.frustums) {
+      if (frustum.intersectsBox(bounds)) return true;
+    }
+    return false;
   }
 
   /**
@@ -209,17 +522,37 @@ export abstract class BaseScatterSystem extends THREE.Group {
   }
 
   /**
-   * Calculate LOD density multiplier based on distance from camera
+   * Calculate LOD density multiplier based on distance from camera.
+   * With blendDistance the multiplier ramps to the next level before each band
+   * boundary, so chunks gain or lose instances gradually instead of at once.
    * @param chunkCenterX - X coordinate of chunk center
    * @param chunkCenterZ - Z coordinate of chunk center
    */
   protected getLODDensityMultiplier(chunkCenterX: number, chunkCenterZ: number): number {
-    const camera = this.getCurrentCamera();
-    if (!camera || !this.config.lod?.levels?.length) return 1.0;
+    return this.getLODValue(chunkCenterX, chunkCenterZ, level => level.densityMultiplier);
+  }
 
-    const dx = chunkCenterX - camera.position.x;
-    const dz = chunkCenterZ - camera.position.z;
-    const distance = Math.sqrt(dx * dx + dz * dz);
+  /**
+   * Calculate LOD scale multiplier based on distance from camera,
+   * blended between levels like the density multiplier
+   */
+  protected getLODScaleMultiplier(chunkCenterX: number, chunkCenterZ: number): number {
+    return this.getLODValue(chunkCenterX, chunkCenterZ, level => level.scaleMultiplier ?? 1.0);
+  }
+
+  /**
+   * Read a per-level LOD value at a chunk, blending over blendDistance
+   */
+  private getLODValue(chunkCenterX: number, chunkCenterZ: number, value: (level: LODLevel) => number): number {
+    if (!this.viewerPositions.length) return 1.0;
+    return this.getLODValueAt(this.getNearestViewerDistance(chunkCenterX, chunkCenterZ), value);
+  }
+
+  /**
+   * Read a per-level LOD value at a viewer distance, blending over blendDistance
+   */
+  private getLODValueAt(distance: number, value: (level: LODLevel) => number): number {
+    if (!this.config.lod?.levels?.length) return 1.0;
 
     const levels = this.config.lod.levels;
     const blendDistance = this.config.lod.blendDistance ?? 0;
@@ -227,45 +560,22 @@ export abstract class BaseScatterSystem extends THREE.Group {
     // Find which LOD level this distance falls into
     for (let i = levels.length - 1; i >= 0; i--) {
       if (distance >= levels[i].distance) {
-        // Check for blending with next level
+        // Blend towards the next level over the last blendDistance units of this band
         if (blendDistance > 0 && i < levels.length - 1) {
           const nextLevel = levels[i + 1];
-          const transitionStart = levels[i].distance;
-          const transitionEnd = nextLevel.distance;
+          const transitionStart = Math.max(levels[i].distance, nextLevel.distance - blendDistance);
+          const transitionLength = nextLevel.distance - transitionStart;
 
-          if (distance < transitionStart + blendDistance && distance < transitionEnd) {
-            const t = (distance - transitionStart) / blendDistance;
-            const clampedT = Math.min(1, Math.max(0, t));
-            return levels[i].densityMultiplier * (1 - clampedT) + nextLevel.densityMultiplier * clampedT;
+          if (distance > transitionStart && transitionLength > 0) {
+            const t = Math.min(1, (distance - transitionStart) / transitionLength);
+            return value(levels[i]) * (1 - t) + value(nextLevel) * t;
           }
         }
-        return levels[i].densityMultiplier;
-      }
-    }
-
-    return 1.0; // Full density for closest range
-  }
-
-  /**
-   * Calculate LOD scale multiplier based on distance from camera
-   */
-  protected getLODScaleMultiplier(chunkCenterX: number, chunkCenterZ: number): number {
-    const camera = this.getCurrentCamera();
-    if (!camera || !this.config.lod?.levels?.length) return 1.0;
-
-    const dx = chunkCenterX - camera.position.x;
-    const dz = chunkCenterZ - camera.position.z;
-    const distance = Math.sqrt(dx * dx + dz * dz);
-
-    const levels = this.config.lod.levels;
-
-    for (let i = levels.length - 1; i >= 0; i--) {
-      if (distance >= levels[i].distance) {
-        return levels[i].scaleMultiplier ?? 1.0;
+        return value(levels[i]);
       }
     }
 
-    return 1.0;
+    return 1.0; // Full detail for closest range
   }
 
   /**
@@ -285,6 +595,13 @@ export abstract class BaseScatterSystem extends THREE.Group {
     this.config.visibilityRange = range;
   }
 
+  /**
+   * Change wind parameters at runtime (requires `wind` in the config; bendAttribute is fixed)
+   */
+  setWindConfig(config: Omit<WindConfig, 'bendAttribute'>): void {
+    this.windPatch?.setConfig(config);
+  }
+
   /**
    * Toggle debug visualization
    * @param enabled - Whether to show debug visuals
@@ -304,49 +621,246 @@ export abstract class BaseScatterSystem extends THREE.Group {
       this.deactivateChunk(key);
     }
     this.chunks.clear();
+    this.lodBandFactors = [];
+    if (this.isInitialized) this.refreshGenerator();
+    this.updateChunks();
+    this.processChunkQueue();
+  }
+
+  /**
+   * Regenerate the chunks overlapping an XZ rectangle, as (x, z), leaving other chunks and their cache alone
+   */
+  regenerateRegion(region: THREE.Box2): void {
+    this.regenerateRegions([region]);
+  }
+
+  /**
+   * Keep instances out of a shape
+   * @returns Zone id for updateZone() and removeZone()
+   */
+  addExclusionZone(shape: ZoneShape): number {
+    return this.addZone(shape, false);
+  }
+
+  /**
+   * Only place instances inside inclusion zones (once at least one exists)
+   * @returns Zone id for updateZone() and removeZone()
+   */
+  addInclusionZone(shape: ZoneShape): number {
+    return this.addZone(shape, true);
+  }
+
+  /**
+   * Move or reshape a zone, regenerating the chunks under its old and new shape
+   */
+  updateZone(id: number, shape: ZoneShape): void {
+    const previous = this.zones.getBounds(id);
+    if (!previous) throw new Error(`Unknown scatter zone ${id}`);
+    this.zones.update(id, shape);
+    this.regenerateRegions([previous, this.zones.getBounds(id)!]);
+  }
+
+  /**
+   * Remove a zone, regenerating the chunks under it
+   */
+  removeZone(id: number): void {
+    const bounds = this.zones.getBounds(id);
+    if (!bounds) return;
+    const hadInclusions = this.zones.hasInclusions();
+    this.zones.remove(id);
+    this.regenerateRegions([hadInclusions !== this.zones.hasInclusions() ? EVERYWHERE : bounds]);
+  }
+
+  private addZone(shape: ZoneShape, include: boolean): number {
+    const hadInclusions = this.zones.hasInclusions();
+    const id = this.zones.add(shape, include);
+    // The first inclusion zone empties everything outside it
+    this.regenerateRegions([hadInclusions !== this.zones.hasInclusions() ? EVERYWHERE : this.zones.getBounds(id)!]);
+    return id;
+  }
+
+  /**
+   * How far a chunk's candidates may lie outside its bounds:
+   * up to a placement cell when the chunk size is not a multiple of it (see forEachCell())
+   */
+  private getChunkSpill(): number {
+    const { chunkSize, placementCellSize } = this.config;
+    return chunkSize % placementCellSize === 0 ? 0 : placementCellSize;
+  }
+
+  /**
+   * Drop chunks overlapping any of the regions, with their cached transforms, and rebuild the visible ones.
+   * Zones and the occupancy map filter candidates after generation, so the generator is kept.
+   */
+  private regenerateRegions(regions: THREE.Box2[]): void {
+    const margin = this.getChunkSpill();
+    for (const [key, chunk] of [...this.chunks]) {
+      const { min, max } = chunk.bounds;
+      const overlaps = regions.some(region =>
+        min.x - margin <= region.max.x && max.x + margin >= region.min.x &&
+        min.z - margin <= region.max.y && max.z + margin >= region.min.y
+      );
+      if (!overlaps) continue;
+      this.deactivateChunk(key);
+      this.transformCache.delete(key);
+      this.chunks.delete(key);
+    }
+
+    for (const region of regions) {
+      this.config.occupancy?.map.invalidateRegion(this, region);
+    }
     this.updateChunks();
+    this.processChunkQueue();
+  }
+
+  /**
+   * Build every queued chunk and show every worker result immediately, ignoring the streaming budget
+   */
+  flushChunkQueue(): void {
+    if (!this.isOccupancyClear()) return;
+    for (const ready of Array.from(this.readyChunks.values())) {
+      this.showReadyChunk(ready);
+    }
+    while (this.chunkQueue.size > 0) {
+      const [entry] = this.chunkQueue.values();
+      this.chunkQueue.delete(entry.key);
+      this.buildChunk(entry);
+    }
   }
 
   /**
    * Clean up all resources
    */
   dispose(): void {
-    this.regenerateAll();
+    for (const key of this.chunks.keys()) {
+      this.deactivateChunk(key);
+    }
+    this.chunks.clear();
+    this.config.workerPool?.unregister(this.uuid);
+    this.generator = null;
+    this.config.occupancy?.map.unregister(this);
     // Remove instanced meshes from this Group
-    for (const mesh of this.converter.getInstancedMeshes()) {
-      this.remove(mesh);
+    for (const converter of this.converters) {
+      for (const mesh of converter.getInstancedMeshes()) {
+        this.remove(mesh);
+      }
+      converter.dispose();
     }
-    this.converter.dispose();
+    this.windPatch?.dispose();
     this.remove(this.debugGroup);
     this.debugGroup.clear();
     this.debugMaterial.dispose();
     this.instancePool.clear();
+    this.transformCache.clear();
     this.isInitialized = false;
   }
 
   /**
    * Get system statistics
    */
-  getStats(): {
-    instances: { active: number; total: number; max: number };
-    chunks: { total: number; active: number };
-    meshes: number;
-  } {
+  getStats(): ScatterStats {
+    const uploads = { bytes: 0, ranges: 0 };
+    const lodLevels: number[] = [];
+    let drawn = 0;
+    let meshes = 0;
+    const rejected = new Array<number>(this.config.placementRules.length).fill(0);
+    for (const chunk of this.chunks.values()) {
+      if (!chunk.isActive || !chunk.rejections) continue;
+      chunk.rejections.forEach((count, rule) => rejected[rule] += count);
+    }
+    for (const converter of this.converters) {
+      const converterUploads = converter.getUploadStats();
+      uploads.bytes += converterUploads.bytes;
+      uploads.ranges += converterUploads.ranges;
+      drawn += converter.getLiveCount();
+      meshes += converter.getMeshCount();
+      for (let level = 0; level < converter.getLevelCount(); level++) {
+        lodLevels[level] = (lodLevels[level] ?? 0) + converter.getLiveCount(level);
+      }
+    }
+
     return {
-      instances: this.instancePool.getStats(),
+      instances: { ...this.instancePool.getStats(), drawn },
       chunks: {
         total: this.chunks.size,
-        active: Array.from(this.chunks.values()).filter(c => c.isActive).length
+        active: Array.from(this.chunks.values()).filter(c => c.isActive).length,
+        queued: this.chunkQueue.size + this.inFlightChunks.size + this.readyChunks.size,
+        merged: Array.from(this.chunks.values()).filter(c => c.merged).length
       },
-      meshes: this.converter.getMeshCount()
+      cache: this.transformCache.getStats(),
+      uploads,
+      meshes,
+      variants: this.converters.map((converter, index) => ({
+        id: this.variantIds[index],
+        instances: converter.getLiveCount()
+      })),
+      lodLevels,
+      placementRules: this.config.placementRules.map((rule, index) => ({
+        name: rule.name ?? rule.type,
+        rejected: rejected[index] ?? 0
+      }))
     };
   }
 
   /**
-   * Get the underlying mesh converter
+   * Get the mesh converter of a source variant
+   * @param variant - Variant index or id (default: the first variant)
+   */
+  getConverter(variant: number | string = 0): MeshToInstancedMeshConverter {
+    const index = typeof variant === 'string' ? this.variantIds.indexOf(variant) : variant;
+    const converter = this.converters[index];
+    if (!converter) {
+      throw new Error(`Unknown scatter variant: ${variant}`);
+    }
+    return converter;
+  }
+
+  /**
+   * Get the mesh converters of all source variants, in variant order
+   */
+  getConverters(): MeshToInstancedMeshConverter[] {
+    return [...this.converters];
+  }
+
+  /**
+   * Take a free instance handle for an instance placed outside the chunks (e.g. by a brush).
+   * Room is made according to the pool exhaustion policy, and the handle starts at full geometry detail.
+   * @returns The handle, or null if the pool is full
+   */
+  acquireInstance(): number | null {
+    this.reclaimInstances(1);
+    const instanceId = this.instancePool.acquire();
+    if (instanceId === null) return null;
+
+    // Pool ids are reused, so drop the geometry level a chunk may have left behind in any variant
+    for (const converter of this.converters) {
+      converter.setInstanceLevel(instanceId, 0);
+    }
+    return instanceId;
+  }
+
+  /**
+   * Compute the color, custom attributes and wind phase of a handle from acquireInstance()
+   * @param matrix - World transform the instance will be shown with
+   * @param variant - Variant index drawing the instance
+   * @param normal - Surface normal under the instance (default: up)
    */
-  getConverter(): MeshToInstancedMeshConverter {
-    return this.converter;
+  applyInstanceAttributes(
+    instanceId: number,
+    matrix: THREE.Matrix4,
+    variant: number = 0,
+    normal: THREE.Vector3 = this._tempNormal.set(0, 1, 0)
+  ): void {
+    this.generateInstanceAttributes(variant, instanceId, matrix.elements, 0, normal, '');
+  }
+
+  /**
+   * Hide a handle from acquireInstance() and return it to the pool
+   * @param variant - Variant index drawing the instance
+   */
+  releaseInstance(instanceId: number, variant: number = 0): void {
+    this.getConverter(variant).hideInstance(instanceId);
+    this.instancePool.release(instanceId);
   }
 
   // ============================================
@@ -354,10 +868,77 @@ export abstract class BaseScatterSystem extends THREE.Group {
   // ============================================
 
   /**
-   * Get the current camera set during update()
+   * Get the primary (first) camera set during update()
    */
   protected getCurrentCamera(): THREE.Camera | null {
-    return currentCamera;
+    return this.cameras[0] ?? null;
+  }
+
+  /**
+   * Get the cameras set during update()
+   */
+  protected getCameras(): THREE.Camera[] {
+    return this.cameras;
+  }
+
+  /**
+   * Horizontal (XZ) distance from a point to the nearest viewer
+   */
+  protected getNearestViewerDistance(x: number, z: number): number {
+    let nearest = Infinity;
+    for (const viewer of this.viewerPositions) {
+      const dx = x - viewer.x;
+      const dz = z - viewer.z;
+      nearest = Math.min(nearest, dx * dx + dz * dz);
+    }
+    return Math.sqrt(nearest);
+  }
+
+  /**
+   * 3D distance from a point to the nearest viewer
+   */
+  protected getNearestViewerDistance3D(point: THREE.Vector3): number {
+    let nearest = Infinity;
+    for (const viewer of this.viewerPositions) {
+      nearest = Math.min(nearest, point.distanceToSquared(viewer));
+    }
+    return Math.sqrt(nearest);
+  }
+
+  /**
+   * XZ rectangle covering every viewer expanded by range, or null before the first update()
+   */
+  protected getViewerExtents(range: number): { minX: number; maxX: number; minZ: number; maxZ: number } | null {
+    if (!this.viewerPositions.length) return null;
+
+    const extents = { minX: Infinity, maxX: -Infinity, minZ: Infinity, maxZ: -Infinity };
+    for (const viewer of this.viewerPositions) {
+      extents.minX = Math.min(extents.minX, viewer.x - range);
+      extents.maxX = Math.max(extents.maxX, viewer.x + range);
+      extents.minZ = Math.min(extents.minZ, viewer.z - range);
+      extents.maxZ = Math.max(extents.maxZ, viewer.z + range);
+    }
+    return extents;
+  }
+
+  /**
+   * Distance within which a chunk should be active.
+   * Inactive chunks activate inside visibilityRange; active chunks are kept
+   * until they pass visibilityRange + deactivationMargin, so they don't thrash at the edge.
+   */
+  protected getChunkRange(key: string): number {
+    const isActive = this.chunks.get(key)?.isActive ?? false;
+    return this.config.visibilityRange + (isActive ? this.config.deactivationMargin : 0);
+  }
+
+  /**
+   * Frustum test with the same hysteresis as getChunkRange():
+   * active chunks are tested against their bounds expanded by deactivationMargin
+   */
+  protected isChunkInView(key: string, bounds: THREE.Box3): boolean {
+    const isActive = this.chunks.get(key)?.isActive ?? false;
+    if (!isActive || this.config.deactivationMargin <= 0) return this.isChunkInFrustum(bounds);
+    return this.isChunkInFrustum(this._tempBounds.copy(bounds).expandByScalar(this.config.deactivationMargin));
   }
 
   /**
@@ -368,12 +949,11 @@ export abstract class BaseScatterSystem extends THREE.Group {
   }
 
   /**
-   * Activate a chunk at the given coordinates
+   * Activate a chunk at the given coordinates.
+   * The chunk is queued and populated by processChunkQueue() within the streaming budget.
    */
-  protected activateChunk(x: number, z: number, extraData?: unknown): void {
+  protected activateChunk(x: number, z: number, extraData: unknown = this.getChunkExtraData(x, z)): void {
     const key = this.getChunkKey(x, z);
-    const chunkSeed = ((x * 73856093) ^ (z * 19349663) ^ this.config.randomSeed) >>> 0;
-    const noiseGen = new PerlinNoise(chunkSeed);
     const chunkSize = this.config.chunkSize;
     const bounds = new THREE.Box3(
       new THREE.Vector3(x - chunkSize / 2, -1000, z - chunkSize / 2),
@@ -383,83 +963,835 @@ export abstract class BaseScatterSystem extends THREE.Group {
     const chunk: ChunkData = {
       instances: [],
       isActive: true,
-      noiseGenerator: noiseGen,
+      isBuilt: false,
       bounds: bounds
     };
 
-    this.populateChunk(chunk, x, z, extraData);
     this.chunks.set(key, chunk);
 
-    // Emit activation event
+    const priority = this.getChunkPriority(bounds);
+    this.chunkQueue.set(key, { key, x, z, extraData, priority });
+    this.config.events?.onChunkQueued?.(key, priority);
+  }
+
+  /**
+   * Build priority of a chunk: distance to the nearest viewer,
+   * pushed back by the visibility range when outside every frustum
+   */
+  protected getChunkPriority(bounds: THREE.Box3): number {
+    const center = bounds.getCenter(this._tempCenter);
+    const distance = this.getNearestViewerDistance(center.x, center.z);
+    return this.isChunkInFrustum(bounds) ? distance : distance + this.config.visibilityRange;
+  }
+
+  /**
+   * Build queued chunks nearest-first until the per-update budget is spent.
+   * At least one chunk is built per call so the queue always drains.
+   * With a worker pool, chunks are dispatched nearest-first instead, and the
+   * generated ones are shown nearest-first under the same budget.
+   */
+  protected processChunkQueue(): void {
+    if ((this.chunkQueue.size === 0 && this.readyChunks.size === 0) || !this.isOccupancyClear()) return;
+
+    const { frameBudgetMs, instanceBudget } = this.config.streaming;
+    const queue = this.sortByPriority(Array.from(this.chunkQueue.values()));
+    const workers = this.useWorkers();
+
+    if (workers) {
+      const maxInFlight = this.config.workerPool.size * 2;
+      for (const entry of queue) {
+        if (this.inFlightChunks.size >= maxInFlight) break;
+        this.chunkQueue.delete(entry.key);
+        this.dispatchChunk(entry);
+      }
+    }
+
+    const start = now();
+    let built = 0;
+    let placed = 0;
+    const overBudget = (): boolean => built > 0 && (now() - start >= frameBudgetMs || placed >= instanceBudget);
+
+    const ready = this.sortByPriority(Array.from(this.readyChunks.values(), ready => ready.entry));
+    for (const entry of ready) {
+      if (overBudget()) break;
+      placed += this.showReadyChunk(this.readyChunks.get(entry.key)!);
+      built++;
+    }
+    if (workers) return;
+
+    for (const entry of queue) {
+      if (overBudget()) break;
+      this.chunkQueue.delete(entry.key);
+      placed += this.buildChunk(entry);
+      built++;
+    }
+  }
+
+  /**
+   * Refresh the priorities of queued chunks and sort them nearest-first
+   */
+  private sortByPriority(entries: QueuedChunk[]): QueuedChunk[] {
+    for (const entry of entries) {
+      const chunk = this.chunks.get(entry.key);
+      if (chunk) entry.priority = this.getChunkPriority(chunk.bounds);
+    }
+    return entries.sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * Populate a chunk generated by the worker pool
+   * @returns Number of instances placed
+   */
+  private showReadyChunk(ready: ReadyChunk): number {
+    this.readyChunks.delete(ready.entry.key);
+    if (this.chunks.get(ready.entry.key) !== ready.chunk || !ready.chunk.isActive) return 0;
+    return this.completeChunk(ready.chunk, ready.task, ready.candidates, ready.startTime);
+  }
+
+  /**
+   * Generate and populate a queued chunk on the main thread
+   * @returns Number of instances placed
+   */
+  protected buildChunk(entry: QueuedChunk): number {
+    const chunk = this.chunks.get(entry.key);
+    if (!chunk || !chunk.isActive || !this.generator) return 0;
+
+    const start = now();
+    const task = this.createChunkTask(entry);
+    const candidates = this.transformCache.take(entry.key) ?? this.filterCandidates(this.generator.run(task));
+    return this.completeChunk(chunk, task, candidates, start);
+  }
+
+  /**
+   * Generate a queued chunk in the worker pool, falling back to the main thread on failure.
+   * The result waits in readyChunks until processChunkQueue() shows it.
+   */
+  protected async dispatchChunk(entry: QueuedChunk): Promise<void> {
+    const chunk = this.chunks.get(entry.key);
+    if (!chunk || !chunk.isActive || !this.generator) return;
+
+    const task = this.createChunkTask(entry);
+    const start = now();
+
+    try {
+      const cached = this.transformCache.take(entry.key);
+      if (cached) {
+        this.readyChunks.set(entry.key, { entry, chunk, task, candidates: cached, startTime: start });
+        return;
+      }
+
+      this.inFlightChunks.set(entry.key, task);
+
+      let candidates: ChunkCandidates;
+      try {
+        candidates = await this.config.workerPool.generate(this.uuid, task);
+      } catch (error) {
+        if (this.inFlightChunks.get(entry.key) !== task || !this.generator) return;
+        console.warn(`Worker generation failed for chunk ${entry.key}, generating on main thread:`, error);
+        candidates = this.generator.run(task);
+      }
+
+      // Chunk was cancelled or regenerated while the worker was busy
+      if (this.inFlightChunks.get(entry.key) !== task) return;
+      this.inFlightChunks.delete(entry.key);
+
+      const filtered = this.filterCandidates(candidates);
+      this.readyChunks.set(entry.key, { entry, chunk, task, candidates: filtered, startTime: start });
+    } catch (error) {
+      // Nothing awaits this call; free the in-flight slot so streaming continues
+      if (this.inFlightChunks.get(entry.key) === task) this.inFlightChunks.delete(entry.key);
+      console.error(`Failed to build chunk ${entry.key}:`, error);
+    }
+  }
+
+  /**
+   * Whether every higher-priority system sharing the occupancy map can report its footprints,
+   * so chunks can be built
+   */
+  private isOccupancyClear(): boolean {
+    const occupancy = this.config.occupancy;
+    return !occupancy || occupancy.map.isReady(occupancy.priority);
+  }
+
+  /**
+   * Drop candidates rejected by the zones or overlapping instances of higher-priority systems
+   * in the occupancy map. Runs on the main thread after generation, keeping the LOD order of the rest.
+   */
+  protected filterCandidates(candidates: ChunkCandidates): ChunkCandidates {
+    const occupancy = this.config.occupancy;
+    if (!occupancy && this.zones.size === 0) return candidates;
+
+    const { matrices, variants, normals } = candidates;
+    const kept: number[] = [];
+    for (let i = 0; i < matrices.length / 16; i++) {
+      const x = matrices[i * 16 + 12];
+      const z = matrices[i * 16 + 14];
+      if (!this.zones.allows(x, matrices[i * 16 + 13], z)) continue;
+      if (occupancy && occupancy.map.isOccupied(x, z, this.occupancyRadius, occupancy.priority)) continue;
+      kept.push(i);
+    }
+    if (kept.length === matrices.length / 16) return candidates;
+
+    const filtered = new Float32Array(kept.length * 16);
+    const filteredVariants = variants ? new Uint8Array(kept.length) : null;
+    const filteredNormals = new Float32Array(kept.length * 3);
+    kept.forEach((index, i) => {
+      filtered.set(matrices.subarray(index * 16, index * 16 + 16), i * 16);
+      filteredNormals.set(normals.subarray(index * 3, index * 3 + 3), i * 3);
+      if (filteredVariants) filteredVariants[i] = variants![index];
+    });
+    return { matrices: filtered, variants: filteredVariants, normals: filteredNormals, rejections: candidates.rejections };
+  }
+
+  /**
+   * Whether the system places anything in the chunk at the given coordinates
+   * (override for systems whose updateChunks() only covers part of the world)
+   */
+  protected isChunkInDomain(chunkX: number, chunkZ: number): boolean {
+    return true;
+  }
+
+  /**
+   * Generator data of the chunk at the given coordinates, passed along with its task
+   * (override for generators that need more than the chunk center)
+   */
+  protected getChunkExtraData(chunkX: number, chunkZ: number): unknown {
+    return undefined;
+  }
+
+  /**
+   * Whether footprints can be generated for the occupancy map
+   */
+  isOccupancyReady(): boolean {
+    return this.isInitialized && this.generator !== null;
+  }
+
+  /**
+   * XZ positions of a chunk's full-density instances, packed as pairs.
+   * Chunks that were never activated are generated on the spot, so lower-priority
+   * systems in the occupancy map see the same footprints whatever the camera did.
+   */
+  getOccupancyFootprints(chunkX: number, chunkZ: number): Float32Array {
+    const key = this.getChunkKey(chunkX, chunkZ);
+    let matrices = this.chunks.get(key)?.matrices ?? this.transformCache.peek(key)?.matrices;
+    if (!matrices) {
+      if (!this.generator || !this.isChunkInDomain(chunkX, chunkZ)) return new Float32Array(0);
+      // Same task as a real activation, so the footprints match what gets placed
+      const task = this.createChunkTask({ key, x: chunkX, z: chunkZ, extraData: this.getChunkExtraData(chunkX, chunkZ), priority: 0 });
+      matrices = this.filterCandidates(this.generator.run(task)).matrices;
+    }
+
+    const points = new Float32Array(matrices.length / 8);
+    for (let i = 0; i < points.length / 2; i++) {
+      points[i * 2] = matrices[i * 16 + 12];
+      points[i * 2 + 1] = matrices[i * 16 + 14];
+    }
+    return points;
+  }
+
+  /**
+   * Store generated candidates on a chunk, show its LOD prefix and emit its lifecycle events
+   * @returns Number of instances placed
+   */
+  protected completeChunk(chunk: ChunkData, task: ChunkTask, candidates: CachedChunk, startTime: number): number {
+    const key = task.key;
+    chunk.matrices = candidates.matrices;
+    chunk.variants = candidates.variants;
+    chunk.normals = candidates.normals;
+    chunk.rejections = candidates.rejections;
+    chunk.hlod = candidates.hlod ?? null;
+    if (!this.updateChunkHLOD(chunk)) this.applyChunkLOD(chunk, key);
+    chunk.isBuilt = true;
+    const buildTime = now() - startTime;
+
+    // Emit activation events
     this.config.events?.onChunkActivated?.(key, chunk.instances.length);
+    this.config.events?.onChunkBuilt?.(key, chunk.instances.length, buildTime);
+
+    return chunk.instances.length;
   }
 
   /**
-   * Deactivate a chunk and release its instances
+   * Show the prefix of a chunk's candidates matching its current LOD density, scaled by its LOD scale.
+   * Instances are added or removed at the tail, so nothing already visible moves;
+   * visible instances are rescaled in place when the scale changes.
+   * When the pool runs out, the exhaustion policy decides who gives up instances.
    */
-  protected deactivateChunk(key: string): void {
-    const chunk = this.chunks.get(key);
-    if (!chunk) return;
+  protected applyChunkLOD(chunk: ChunkData, key: string): void {
+    if (!chunk.matrices) return;
+
+    const center = chunk.bounds.getCenter(this._tempCenter);
+    const lodDensity = this.getLODDensityMultiplier(center.x, center.z);
+    const lodScale = this.getLODScaleMultiplier(center.x, center.z);
+    const bandFactor = this.lodBandFactors[this.getLODBand(center.x, center.z)] ?? 1;
+    const candidates = chunk.matrices.length / 16;
+    const target = Math.min(candidates, Math.round(candidates * lodDensity * bandFactor));
+    chunk.lodDensity = lodDensity;
+
+    this.trimChunk(chunk, target);
+
+    if (lodScale !== (chunk.lodScale ?? 1)) {
+      this.setChunkInstanceMatrices(chunk, 0, chunk.instances, lodScale);
+      chunk.lodScale = lodScale;
+    }
+
+    const start = chunk.instances.length;
+    if (start >= target) {
+      chunk.deniedInstances = 0;
+      return;
+    }
+
+    this.reclaimInstances(target - start, chunk);
+
+    const ids: number[] = [];
+    for (let i = start; i < target; i++) {
+      const instanceId = this.instancePool.acquire();
+      if (instanceId === null) break;
+      ids.push(instanceId);
+    }
+
+    for (let i = 0; i < ids.length; i++) {
+      const index = start + i;
+      const normal = this._tempNormal.fromArray(chunk.normals!, index * 3);
+      this.generateInstanceAttributes(chunk.variants ? chunk.variants[index] : 0, ids[i], chunk.matrices, index * 16, normal, key);
+    }
+    this.setChunkInstanceMatrices(chunk, start, ids, lodScale);
+    for (const instanceId of ids) {
+      chunk.instances.push(instanceId);
+    }
+
+    // Report each new shortfall once rather than on every retry
+    const denied = target - chunk.instances.length;
+    if (denied > 0) {
+      this.poolDenied = true;
+      if (denied !== chunk.deniedInstances) {
+        this.config.events?.onPoolExhausted?.(key, denied);
+      }
+    }
+    chunk.deniedInstances = denied;
+  }
+
+  /**
+   * Patch copies of every converter's materials with wind animation and give instances a sway phase.
+   * Meshes that cast shadows get swaying shadow materials too.
+   */
+  private initializeWind(config: WindConfig): void {
+    const windPatch = new WindMaterialPatch(config);
+    const shadowMaterials = windPatch.createShadowMaterials();
+
+    for (const converter of this.converters) {
+      converter.replaceMaterials(material => windPatch.patch(material));
+      converter.addInstanceAttribute(WIND_PHASE_ATTRIBUTE, 1);
+      for (const mesh of converter.getInstancedMeshes()) {
+        if (!mesh.castShadow) continue;
+        mesh.customDepthMaterial = shadowMaterials.depth;
+        mesh.customDistanceMaterial = shadowMaterials.distance;
+      }
+    }
+    this.windPatch = windPatch;
+  }
+
+  /**
+   * Compute and store an instance's color, custom attributes and wind phase before it is shown
+   * @param matrices - Packed transforms containing the instance's
+   * @param offset - Offset of the instance's transform in `matrices`
+   * @param normal - Surface normal the instance was placed on
+   * @param chunkKey - Chunk showing the instance (empty for instances outside chunks)
+   */
+  protected generateInstanceAttributes(
+    variant: number,
+    instanceId: number,
+    matrices: ArrayLike<number>,
+    offset: number,
+    normal: THREE.Vector3,
+    chunkKey: string
+  ): void {
+    const colorConfig = this.config.instanceColor;
+    const attributes = this.config.instanceAttributes;
+    const converter = this.converters[variant];
+    const x = matrices[offset + 12];
+    const z = matrices[offset + 14];
+
+    if (this.windPatch) {
+      const seed = this.generator?.getPositionSeed(x, z, WIND_PHASE_SALT) ?? 0;
+      converter.setInstanceAttribute(instanceId, WIND_PHASE_ATTRIBUTE, seed / 4294967296 * Math.PI * 2);
+    }
+    if (!colorConfig && attributes.length === 0) return;
+
+    const ctx = this._attributeContext;
+    ctx.position.set(x, matrices[offset + 13], z);
+    ctx.normal.copy(normal);
+    ctx.rng.setSeed(this.generator?.getPositionSeed(x, z, ATTRIBUTE_SALT) ?? 0);
+    ctx.noise = this.generator?.sampleNoise(x, z) ?? 0;
+    ctx.density = this.sampleDensityMap(x, z);
+    ctx.chunkKey = chunkKey;
+    ctx.distance = this.viewerPositions.length ? this.getNearestViewerDistance(x, z) : 0;
+    ctx.variant = this.variantIds[variant];
+
+    if (colorConfig) converter.setInstanceColor(instanceId, this.getJitteredColor(colorConfig, ctx));
+    for (const attribute of attributes) {
+      converter.setInstanceAttribute(instanceId, attribute.name, attribute.generate(ctx));
+    }
+  }
+
+  /**
+   * Base color offset in HSL by the configured jitter ranges
+   */
+  private getJitteredColor(config: InstanceColorConfig, ctx: InstanceAttributeContext): THREE.Color {
+    const driver = config.driver ?? 'random';
+    const pick = (range: [number, number] | undefined): number => {
+      if (!range) return 0;
+      const t = driver === 'noise' ? ctx.noise : driver === 'densityMap' ? ctx.density : ctx.rng.next();
+      return range[0] + (range[1] - range[0]) * THREE.MathUtils.clamp(t, 0, 1);
+    };
+
+    const hsl = this._color.set(config.color ?? 0xffffff).getHSL(this._hsl);
+    const h = hsl.h + pick(config.hueJitter);
+    const s = THREE.MathUtils.clamp(hsl.s + pick(config.saturationJitter), 0, 1);
+    const l = THREE.MathUtils.clamp(hsl.l + pick(config.lightnessJitter), 0, 1);
+    return this._color.setHSL(h - Math.floor(h), s, l);
+  }
+
+  /**
+   * Converter drawing a chunk's candidate (candidate i is shown by chunk.instances[i])
+   */
+  protected getCandidateConverter(chunk: ChunkData, index: number): MeshToInstancedMeshConverter {
+    return chunk.variants ? this.converters[chunk.variants[index]] : this.converter;
+  }
+
+  /**
+   * Upload candidates [start, start + ids.length) of a chunk to the converters of their variants
+   */
+  private setChunkInstanceMatrices(chunk: ChunkData, start: number, ids: number[], scale: number): void {
+    const matrices = chunk.matrices!;
+    if (this.geometryBandLevels.length > 0) {
+      for (let i = 0; i < ids.length; i++) {
+        this.assignGeometryLevel(chunk, start + i, ids[i]);
+      }
+    }
+
+    if (!chunk.variants) {
+      this.converter.setInstanceMatrices(ids, matrices.subarray(start * 16), scale);
+      return;
+    }
+
+    for (let i = 0; i < ids.length; i++) {
+      const index = start + i;
+      this._singleId[0] = ids[i];
+      this.getCandidateConverter(chunk, index).setInstanceMatrices(this._singleId, matrices.subarray(index * 16), scale);
+    }
+  }
+
+  /**
+   * Lower-detail objects of a variant's LOD levels, and the converter level drawn in each LOD band
+   */
+  private getLODSources(levels: LODLevel[], variantId: string): { sources: Array<THREE.Mesh | THREE.Group>; bandLevels: number[] } {
+    const sources: Array<THREE.Mesh | THREE.Group> = [];
+    const bandLevels = [0];
+    for (const level of levels) {
+      const source = level.source instanceof THREE.Object3D ? level.source : level.source?.[variantId];
+      if (source) sources.push(source);
+      bandLevels.push(sources.length);
+    }
+    return { sources, bandLevels };
+  }
+
+  /**
+   * Draw a chunk's candidate with the geometry level of its distance band.
+   * Visible instances only switch once past the band boundary by the LOD hysteresis;
+   * instances being shown take their band's level directly.
+   */
+  private assignGeometryLevel(chunk: ChunkData, index: number, instanceId: number): void {
+    if (!this.viewerPositions.length) return;
+
+    const variant = chunk.variants ? chunk.variants[index] : 0;
+    const converter = this.converters[variant];
+    const bandLevels = this.geometryBandLevels[variant];
+    const matrices = chunk.matrices!;
+    const distance = this.getNearestViewerDistance(matrices[index * 16 + 12], matrices[index * 16 + 14]);
+    let level = bandLevels[this.getDistanceBand(distance)];
+
+    const current = converter.isInstanceVisible(instanceId) ? converter.getInstanceLevel(instanceId) : level;
+    const hysteresis = this.config.lod?.hysteresis ?? 0;
+    if (hysteresis > 0 && level > current) {
+      level = Math.max(current, bandLevels[this.getDistanceBand(distance - hysteresis)]);
+    } else if (hysteresis > 0 && level < current) {
+      level = Math.min(current, bandLevels[this.getDistanceBand(distance + hysteresis)]);
+    }
+    converter.setInstanceLevel(instanceId, level);
+  }
 
-    for (const instanceId of chunk.instances) {
-      this.converter.hideInstance(instanceId);
+  /**
+   * Release a chunk's instances from the tail down to `target`
+   * @returns Number of instances released
+   */
+  protected trimChunk(chunk: ChunkData, target: number): number {
+    let released = 0;
+    while (chunk.instances.length > Math.max(0, target)) {
+      const converter = this.getCandidateConverter(chunk, chunk.instances.length - 1);
+      const instanceId = chunk.instances.pop()!;
+      converter.hideInstance(instanceId);
       this.instancePool.release(instanceId);
+      released++;
     }
+    return released;
+  }
 
-    chunk.instances = [];
-    chunk.isActive = false;
+  /**
+   * Make room for `count` more instances according to the pool exhaustion policy.
+   * Eviction and LOD reduction only take instances from chunks farther from the viewers than the requester.
+   */
+  protected reclaimInstances(count: number, requester?: ChunkData): void {
+    const missing = count - this.instancePool.getAvailableCount();
+    if (missing <= 0) return;
+
+    switch (this.config.poolExhaustion) {
+      case 'grow':
+        this.growCapacity(count);
+        break;
+      case 'evict-farthest':
+        if (requester) this.evictFarthest(missing, requester);
+        break;
+      case 'reduce-far-lod':
+        if (requester) this.reduceFarLOD(missing, requester);
+        break;
+    }
+  }
 
-    // Emit deactivation event
-    this.config.events?.onChunkDeactivated?.(key);
+  /**
+   * Free instances from the tails of the farthest active chunks
+   */
+  private evictFarthest(missing: number, requester: ChunkData): void {
+    const distance = this.getChunkDistance(requester);
+    const candidates: Array<{ chunk: ChunkData; distance: number }> = [];
+
+    for (const chunk of this.chunks.values()) {
+      if (chunk === requester || !chunk.isActive || chunk.instances.length === 0) continue;
+      const chunkDistance = this.getChunkDistance(chunk);
+      if (chunkDistance > distance) candidates.push({ chunk, distance: chunkDistance });
+    }
+    candidates.sort((a, b) => b.distance - a.distance);
+
+    for (const { chunk } of candidates) {
+      if (missing <= 0) break;
+      const released = this.trimChunk(chunk, chunk.instances.length - missing);
+      // Evicted chunks refill once the pool has room again
+      chunk.deniedInstances = (chunk.deniedInstances ?? 0) + released;
+      missing -= released;
+    }
   }
 
   /**
-   * Get noise value at position
+   * Halve the density of LOD bands beyond the requester's, farthest band first
    */
-  protected getNoiseValue(x: number, z: number, noise: PerlinNoise): number {
-    const cfg = this.config.noiseDistribution;
-    const noiseValue = noise.fbm2D(
-      x, z,
-      cfg.octaves,
-      cfg.persistence,
-      cfg.lacunarity,
-      cfg.scale
-    );
-    return Math.pow(noiseValue + cfg.offset, cfg.power);
+  private reduceFarLOD(missing: number, requester: ChunkData): void {
+    const levels = this.config.lod?.levels;
+    if (!levels?.length) return;
+
+    const center = requester.bounds.getCenter(this._tempCenter);
+    const requesterBand = this.getLODBand(center.x, center.z);
+
+    for (let band = levels.length; band > requesterBand && missing > 0; band--) {
+      while (missing > 0 && (this.lodBandFactors[band] ?? 1) > 0) {
+        const factor = this.lodBandFactors[band] ?? 1;
+        this.lodBandFactors[band] = factor > MIN_LOD_BAND_FACTOR ? factor / 2 : 0;
+
+        for (const chunk of this.chunks.values()) {
+          if (chunk === requester || !chunk.isActive || !chunk.matrices) continue;
+          const chunkCenter = chunk.bounds.getCenter(this._tempCenter);
+          if (this.getLODBand(chunkCenter.x, chunkCenter.z) !== band) continue;
+
+          const candidates = chunk.matrices.length / 16;
+          const target = Math.round(candidates * (chunk.lodDensity ?? 1) * this.lodBandFactors[band]);
+          missing -= this.trimChunk(chunk, target);
+        }
+      }
+    }
+  }
+
+  /**
+   * Index of the LOD band containing a point: 0 before the first level, i + 1 past levels[i]
+   */
+  protected getLODBand(x: number, z: number): number {
+    if (!this.viewerPositions.length) return 0;
+    return this.getDistanceBand(this.getNearestViewerDistance(x, z));
+  }
+
+  /**
+   * Index of the LOD band containing a viewer distance
+   */
+  private getDistanceBand(distance: number): number {
+    const levels = this.config.lod?.levels;
+    if (!levels?.length) return 0;
+
+    for (let i = levels.length - 1; i >= 0; i--) {
+      if (distance >= levels[i].distance) return i + 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Distance from the nearest viewer to a chunk's center
+   */
+  private getChunkDistance(chunk: ChunkData): number {
+    const center = chunk.bounds.getCenter(this._tempCenter);
+    return this.getNearestViewerDistance(center.x, center.z);
+  }
+
+  /**
+   * Grow instance capacity so `count` more instances fit.
+   * Capacity is multiplied by the growth factor until it fits, up to the ceiling.
+   * @returns True if capacity changed
+   */
+  protected growCapacity(count: number): boolean {
+    const growth = this.config.capacityGrowth;
+    const available = this.instancePool.getAvailableCount();
+    if (available >= count) return false;
+
+    const previous = this.instancePool.getCapacity();
+    const required = previous + count - available;
+    let capacity = previous;
+    while (capacity < required && capacity < growth.maxCapacity) {
+      capacity = Math.max(capacity + 1, Math.ceil(capacity * growth.growthFactor));
+    }
+    capacity = Math.min(capacity, growth.maxCapacity);
+    if (capacity <= previous) return false;
+
+    for (const converter of this.converters) {
+      converter.setInstanceCount(capacity);
+    }
+    this.instancePool.setCapacity(capacity);
+    this.config.events?.onCapacityGrown?.(previous, capacity);
+    return true;
+  }
+
+  /**
+   * Re-apply LOD to built chunks as viewers move between LOD bands
+   */
+  protected updateChunkLODs(): void {
+    this.restoreLODBands();
+    this.poolDenied = false;
+
+    const lodEnabled = !!this.config.lod?.levels?.length;
+    for (const [key, chunk] of this.chunks.entries()) {
+      if (!chunk.isActive || !chunk.isBuilt) continue;
+      const wasMerged = !!chunk.merged;
+      if (this.updateChunkHLOD(chunk)) continue;
+      // Without LOD only chunks short of instances, or just unmerged, need another pass
+      if (lodEnabled || chunk.deniedInstances || wasMerged) this.applyChunkLOD(chunk, key);
+      if (this.geometryBandLevels.length > 0) this.updateChunkGeometryLevels(chunk);
+    }
+  }
+
+  /**
+   * Swap a chunk between its instances and its merged HLOD mesh as viewers cross the HLOD distance.
+   * Merged chunks give their instances back to the pool; the mesh is built on first use and kept with the chunk.
+   * @returns Whether the chunk is drawn merged
+   */
+  private updateChunkHLOD(chunk: ChunkData): boolean {
+    const hlod = this.config.hlod;
+    if (!hlod || !this.hlodBatcher || !chunk.matrices || !this.viewerPositions.length) return false;
+
+    const hysteresis = hlod.hysteresis ?? 0;
+    const distance = this.getChunkDistance(chunk);
+    const merge = chunk.merged ? distance >= hlod.distance - hysteresis : distance >= hlod.distance + hysteresis;
+    if (merge === !!chunk.merged) return merge;
+
+    if (merge) {
+      this.trimChunk(chunk, 0);
+      chunk.deniedInstances = 0;
+      chunk.hlod ??= this.buildHLODMesh(chunk);
+      if (chunk.hlod) this.add(chunk.hlod);
+    } else if (chunk.hlod) {
+      this.remove(chunk.hlod);
+    }
+    chunk.merged = merge;
+    return merge;
+  }
+
+  /**
+   * Bake a chunk's candidates into a merged mesh with the LOD density and scale at the HLOD distance,
+   * so the result doesn't depend on where the viewer was when it was built
+   */
+  private buildHLODMesh(chunk: ChunkData): THREE.Mesh | null {
+    const distance = this.config.hlod!.distance;
+    const density = this.getLODValueAt(distance, level => level.densityMultiplier);
+    const scale = this.getLODValueAt(distance, level => level.scaleMultiplier ?? 1.0);
+    const candidates = chunk.matrices!.length / 16;
+    const count = Math.min(candidates, Math.round(candidates * density));
+    return this.hlodBatcher!.build(chunk.matrices!, chunk.variants ?? null, count, scale);
+  }
+
+  /**
+   * Move a chunk's visible instances between geometry levels as viewers move
+   */
+  private updateChunkGeometryLevels(chunk: ChunkData): void {
+    for (let i = 0; i < chunk.instances.length; i++) {
+      this.assignGeometryLevel(chunk, i, chunk.instances[i]);
+    }
+  }
+
+  /**
+   * Give reduced LOD bands back density, nearest band first, while the pool has room
+   */
+  private restoreLODBands(): void {
+    if (this.poolDenied || this.instancePool.getAvailableCount() === 0) return;
+
+    for (let band = 0; band < this.lodBandFactors.length; band++) {
+      const factor = this.lodBandFactors[band] ?? 1;
+      if (factor >= 1) continue;
+      this.lodBandFactors[band] = factor > 0 ? Math.min(1, factor * 2) : MIN_LOD_BAND_FACTOR;
+      return;
+    }
+  }
+
+  /**
+   * Build the generation request for a queued chunk
+   */
+  protected createChunkTask(entry: QueuedChunk): ChunkTask {
+    return {
+      key: entry.key,
+      centerX: entry.x,
+      centerZ: entry.z,
+      extraData: entry.extraData
+    };
+  }
+
+  /**
+   * Placement settings shared by every generator
+   */
+  protected getGenerationSettings(): GenerationSettings {
+    return {
+      density: this.config.density,
+      chunkSize: this.config.chunkSize,
+      cellSize: this.config.placementCellSize,
+      randomSeed: this.config.randomSeed,
+      scaleRange: this.config.scaleRange,
+      rotationRange: this.config.rotationRange,
+      heightOffset: this.config.heightOffset,
+      alignToNormal: this.config.alignToNormal,
+      noiseDistribution: this.config.noiseDistribution,
+      densityMap: this.getDensityMapSettings(),
+      variants: Array.isArray(this.config.source)
+        ? this.config.source.map(variant => ({
+          weight: variant.weight,
+          scaleRange: variant.scaleRange ?? this.config.scaleRange,
+          rotationRange: variant.rotationRange ?? this.config.rotationRange
+        }))
+        : null,
+      placementRules: this.getPlacementRuleSettings(),
+      transformModifiers: this.getTransformModifierSettings(),
+      distribution: this.config.distribution,
+      minSpacing: this.config.minSpacing ?? this.getSourceSpacing()
+    };
   }
 
   /**
-   * Check if instance should be placed at position based on noise
+   * Default minSpacing: the widest variant's horizontal bounding diameter at its max scale,
+   * so neighbouring instances don't overlap
    */
-  protected shouldPlaceInstance(x: number, z: number, noise: PerlinNoise): boolean {
-    if (!this.config.noiseDistribution.enabled) return true;
-    const noiseValue = this.getNoiseValue(x, z, noise);
-    return noiseValue >= this.config.noiseDistribution.threshold;
+  private getSourceSpacing(): number {
+    const variants: ScatterVariant[] = Array.isArray(this.config.source)
+      ? this.config.source
+      : [{ object: this.config.source, weight: 1 }];
+    const box = new THREE.Box3();
+    let spacing = 0;
+
+    for (const variant of variants) {
+      box.setFromObject(variant.object);
+      if (box.isEmpty()) continue;
+      const radius = Math.hypot(
+        Math.max(Math.abs(box.min.x), Math.abs(box.max.x)),
+        Math.max(Math.abs(box.min.z), Math.abs(box.max.z))
+      );
+      const maxScale = (variant.scaleRange ?? this.config.scaleRange)[1];
+      spacing = Math.max(spacing, radius * 2 * maxScale);
+    }
+    return spacing;
   }
 
   /**
-   * Create transform for an instance with optional normal alignment
+   * Recreate the chunk generator from the current config and distribution data
    */
-  protected createInstanceTransform(
-    position: THREE.Vector3,
-    rng: SeededRandom,
-    normal?: THREE.Vector3
-  ): { position: THREE.Vector3; rotation: THREE.Euler; scale: THREE.Vector3 } {
-    position.y += this.config.heightOffset;
+  protected refreshGenerator(): void {
+    // Cached transforms were generated with the previous settings
+    this.transformCache.clear();
 
-    const rotation = new THREE.Euler(0, rng.range(...this.config.rotationRange), 0);
+    const settings = this.getGenerationSettings();
+    const params = this.getGeneratorParams();
+    this.generator = ChunkGeneratorRegistry.create(this.generatorType, settings, params);
 
-    if (this.config.alignToNormal && normal) {
-      const up = new THREE.Vector3(0, 1, 0);
-      const quaternion = new THREE.Quaternion().setFromUnitVectors(up, normal);
-      rotation.setFromQuaternion(quaternion);
-      rotation.y += rng.range(...this.config.rotationRange);
+    if (this.useWorkers()) {
+      this.config.workerPool.register(this.uuid, this.generatorType, settings, params);
     }
+    // Lower-priority systems placed around the previous footprints
+    this.config.occupancy?.map.invalidate(this);
+  }
 
-    const baseScale = rng.range(...this.config.scaleRange);
-    const scale = new THREE.Vector3(baseScale, baseScale, baseScale);
+  /**
+   * Whether generator params can be sent to a worker (override when they hold functions or scene objects)
+   */
+  protected canGenerateInWorker(): boolean {
+    return true;
+  }
+
+  /**
+   * Whether chunks are generated in the configured worker pool
+   */
+  protected useWorkers(): boolean {
+    // Custom rules and modifiers are functions and cannot be sent to a worker
+    return !!this.config.workerPool && this.config.workerPool.size > 0 && this.canGenerateInWorker() &&
+      !this.config.placementRules.some(rule => rule.type === 'custom') &&
+      !this.config.transformModifiers.some(modifier => modifier.type === 'custom');
+  }
 
-    return { position, rotation, scale };
+  /**
+   * Deactivate a chunk and release its instances, keeping its transforms in the cache.
+   * Chunks still waiting in the queue are cancelled instead.
+   */
+  protected deactivateChunk(key: string): void {
+    const chunk = this.chunks.get(key);
+    if (!chunk) return;
+
+    if (this.chunkQueue.delete(key) || this.inFlightChunks.delete(key) || this.readyChunks.delete(key)) {
+      chunk.isActive = false;
+      this.config.events?.onChunkCancelled?.(key);
+      return;
+    }
+
+    chunk.instances.forEach((instanceId, index) => {
+      this.getCandidateConverter(chunk, index).hideInstance(instanceId);
+      this.instancePool.release(instanceId);
+    });
+
+    if (chunk.hlod && chunk.merged) this.remove(chunk.hlod);
+    if (chunk.matrices) {
+      this.transformCache.set(key, {
+        matrices: chunk.matrices,
+        variants: chunk.variants ?? null,
+        normals: chunk.normals!,
+        rejections: chunk.rejections ?? null,
+        hlod: chunk.hlod
+      });
+    } else {
+      chunk.hlod?.geometry.dispose();
+    }
+
+    chunk.instances = [];
+    chunk.matrices = undefined;
+    chunk.variants = undefined;
+    chunk.normals = undefined;
+    chunk.rejections = undefined;
+    chunk.hlod = undefined;
+    chunk.merged = undefined;
+    chunk.lodDensity = undefined;
+    chunk.lodScale = undefined;
+    chunk.deniedInstances = undefined;
+    chunk.isActive = false;
+    chunk.isBuilt = false;
+
+    // Emit deactivation event
+    this.config.events?.onChunkDeactivated?.(key);
   }
 
   /**
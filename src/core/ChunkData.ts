@@ -1,5 +1,4 @@
 import * as THREE from 'three';
-import { PerlinNoise } from '../utils/PerlinNoise';
 
 /**
  * Data structure for a chunk in the scatter system
@@ -7,10 +6,28 @@ import { PerlinNoise } from '../utils/PerlinNoise';
 export interface ChunkData {
   /** Instance IDs assigned to this chunk */
   instances: number[];
-  /** Whether the chunk is currently active/visible */
+  /** Whether the chunk is currently active/visible (queued or built) */
   isActive: boolean;
-  /** Noise generator for this chunk (seeded by position) */
-  noiseGenerator: PerlinNoise | null;
+  /** Whether the chunk has been populated (false while waiting in the build queue) */
+  isBuilt: boolean;
+  /** Full-density candidate transforms in LOD order (16 floats each); instances show a prefix */
+  matrices?: Float32Array;
+  /** Source variant of each candidate (absent with a single source) */
+  variants?: Uint8Array | null;
+  /** Surface normal of each candidate (3 floats each) */
+  normals?: Float32Array;
+  /** Candidates rejected by each placement rule when the chunk was generated */
+  rejections?: Uint32Array | null;
+  /** LOD density multiplier currently applied to the chunk */
+  lodDensity?: number;
+  /** LOD scale multiplier currently applied to the chunk's instances */
+  lodScale?: number;
+  /** Instances the chunk should show but the pool couldn't provide */
+  deniedInstances?: number;
+  /** Merged HLOD mesh, built the first time the chunk is merged and kept until it is evicted */
+  hlod?: THREE.Mesh | null;
+  /** Whether the chunk is drawn by its HLOD mesh instead of instances */
+  merged?: boolean;
   /** World-space bounding box of the chunk */
   bounds: THREE.Box3;
 }
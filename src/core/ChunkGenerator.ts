@@ -0,0 +1,625 @@
+import * as THREE from 'three';
+import type { NoiseDistributionConfig, PointDistribution } from './types';
+import { PlacementRuleSet } from './PlacementRules';
+import type { PlacementRuleSettings } from './PlacementRules';
+import { TransformModifierStack } from './TransformModifiers';
+import type { TransformModifierSettings } from './TransformModifiers';
+import { ImageSampler, PerlinNoise, SeededRandom } from '../utils';
+import type { ImageChannel, RawImageData } from '../utils';
+
+/**
+ * A single chunk generation request
+ */
+export interface ChunkTask {
+  /** Chunk key */
+  key: string;
+  /** Chunk center X coordinate */
+  centerX: number;
+  /** Chunk center Z coordinate */
+  centerZ: number;
+  /** Optional system-specific data */
+  extraData?: unknown;
+}
+
+/**
+ * Density map pixels and options in a worker-transferable form
+ */
+export interface DensityMapSettings {
+  image: RawImageData;
+  /** World XZ rectangle the image maps to: [minX, minZ, maxX, maxZ] */
+  bounds: [number, number, number, number];
+  channel: ImageChannel;
+  multiplier: number;
+  filter: 'nearest' | 'bilinear';
+  outOfBoundsValue: number;
+  invert: boolean;
+}
+
+/**
+ * Placement options of one weighted source variant
+ */
+export interface VariantSettings {
+  weight: number;
+  scaleRange: [number, number];
+  rotationRange: [number, number];
+}
+
+/**
+ * Variant picked for one placement
+ */
+export interface PlacementVariant extends VariantSettings {
+  /** Index into the system's variant list */
+  index: number;
+}
+
+/**
+ * Generated candidates of a chunk, in LOD order
+ */
+export interface ChunkCandidates {
+  /** Packed instance matrices (16 floats per candidate) */
+  matrices: Float32Array;
+  /** Variant index per candidate, or null for a single source */
+  variants: Uint8Array | null;
+  /** Surface normal per candidate (3 floats each); (0, 1, 0) for systems without one */
+  normals: Float32Array;
+  /** Candidates rejected by each placement rule, or null without rules */
+  rejections: Uint32Array | null;
+}
+
+/**
+ * Shared placement settings, taken from the system config when the generator is created
+ */
+export interface GenerationSettings {
+  density: number;
+  chunkSize: number;
+  /** Size of the global placement lattice cells */
+  cellSize: number;
+  randomSeed: number;
+  scaleRange: [number, number];
+  rotationRange: [number, number];
+  heightOffset: number;
+  alignToNormal: boolean;
+  noiseDistribution: Required<NoiseDistributionConfig>;
+  densityMap: DensityMapSettings | null;
+  /** Weighted source variants, or null for a single source */
+  variants: VariantSettings[] | null;
+  /** Filters run on every candidate, in order */
+  placementRules: PlacementRuleSettings[];
+  /** Transform steps run on every instance, in order */
+  transformModifiers: TransformModifierSettings[];
+  /** How area systems spread candidate points */
+  distribution: PointDistribution;
+  /** Minimum distance between candidate points for 'poisson' and 'jittered-grid' */
+  minSpacing: number;
+}
+
+const LOD_RANK_SALT = 0x4c4f44;
+const MODIFIER_SALT = 0x6d6f64;
+const JITTER_SALT = 0x6a6974;
+const POISSON_SALT = 0x706f69;
+/** Highest share of the packing limit poisson thinning aims for; denser requests are capped */
+const MAX_POISSON_FILL = 0.95;
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Pure placement stage of a scatter system.
+ * Turns a chunk request into packed instance matrices (16 floats per instance) and their source variants
+ * without touching the instance pool, converter or scene, so the same code
+ * runs on the main thread and inside a worker with identical output.
+ */
+export abstract class ChunkGenerator<TParams = unknown> {
+  protected settings: GenerationSettings;
+  protected params: TParams;
+  private densityMapSampler: ImageSampler | null;
+  private globalNoise: PerlinNoise | null = null;
+  private placementVariants: PlacementVariant[];
+  private totalVariantWeight: number = 0;
+  private placementRules: PlacementRuleSet | null;
+  /** Rejections per placement rule during the current run() */
+  private rejections: Uint32Array | null = null;
+  private transformModifiers: TransformModifierStack | null;
+  /** Variant of each candidate pushed during the current run() */
+  private candidateVariants: number[] = [];
+  /** Surface normal of each candidate pushed during the current run(), packed */
+  private candidateNormals: number[] = [];
+  private _matrix: THREE.Matrix4 = new THREE.Matrix4();
+  private _quaternion: THREE.Quaternion = new THREE.Quaternion();
+
+  constructor(settings: GenerationSettings, params: TParams) {
+    this.settings = settings;
+    this.params = params;
+    this.densityMapSampler = settings.densityMap ? new ImageSampler(settings.densityMap.image) : null;
+    this.placementRules = settings.placementRules.length > 0
+      ? new PlacementRuleSet(settings.placementRules, settings.randomSeed)
+      : null;
+    this.transformModifiers = settings.transformModifiers.length > 0
+      ? new TransformModifierStack(settings.transformModifiers, this)
+      : null;
+
+    const variants = settings.variants ?? [{ weight: 1, scaleRange: settings.scaleRange, rotationRange: settings.rotationRange }];
+    this.placementVariants = variants.map((variant, index) => ({ ...variant, index }));
+    for (const variant of variants) {
+      this.totalVariantWeight += Math.max(0, variant.weight);
+    }
+  }
+
+  /**
+   * Generate full-density instance matrices for a chunk
+   */
+  abstract generate(task: ChunkTask): Float32Array;
+
+  /**
+   * Generate a chunk's candidates in LOD order.
+   * Candidates are ranked by a hash of their position, so every prefix is an even
+   * subset of the chunk (lower LOD densities show fewer of the same instances)
+   * and the ranking doesn't depend on chunkSize.
+   */
+  run(task: ChunkTask): ChunkCandidates {
+    this.candidateVariants = [];
+    this.candidateNormals = [];
+    this.rejections = this.placementRules ? new Uint32Array(this.placementRules.size) : null;
+    const matrices = this.generate(task);
+    const generated = matrices.length / 16;
+
+    // Variants are only tracked with several sources and when every candidate went through pushTransform()
+    const variants = this.settings.variants && this.candidateVariants.length === generated
+      ? this.candidateVariants
+      : null;
+    const normals = this.candidateNormals.length === generated * 3 ? this.candidateNormals : null;
+    this.candidateVariants = [];
+    this.candidateNormals = [];
+
+    // Indices of the candidates to keep, ranked for LOD
+    const order: number[] = [];
+    const ranks = new Float64Array(generated);
+    for (let i = 0; i < generated; i++) {
+      const x = matrices[i * 16 + 12];
+      const z = matrices[i * 16 + 14];
+      if (this.densityMapSampler && !this.passesDensityMap(x, z)) continue;
+      ranks[i] = this.hashPosition(x, z, LOD_RANK_SALT);
+      order.push(i);
+    }
+    order.sort((a, b) => ranks[a] - ranks[b] || a - b);
+
+    const count = order.length;
+
+    const sorted = new Float32Array(count * 16);
+    const sortedVariants = variants ? new Uint8Array(count) : null;
+    const sortedNormals = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      sorted.set(matrices.subarray(order[i] * 16, order[i] * 16 + 16), i * 16);
+      if (sortedVariants) sortedVariants[i] = variants![order[i]];
+      if (normals) {
+        for (let j = 0; j < 3; j++) sortedNormals[i * 3 + j] = normals[order[i] * 3 + j];
+      } else {
+        sortedNormals[i * 3 + 1] = 1;
+      }
+    }
+    return { matrices: sorted, variants: sortedVariants, normals: sortedNormals, rejections: this.rejections };
+  }
+
+  /**
+   * Sample the density map at a world position (1 without a density map)
+   */
+  sampleDensity(worldX: number, worldZ: number): number {
+    const densityMap = this.settings.densityMap;
+    if (!this.densityMapSampler || !densityMap) return 1.0;
+
+    const [minX, minZ, maxX, maxZ] = densityMap.bounds;
+    const u = (worldX - minX) / (maxX - minX);
+    const v = (worldZ - minZ) / (maxZ - minZ);
+
+    if (u < 0 || u > 1 || v < 0 || v > 1) return densityMap.outOfBoundsValue;
+
+    const value = densityMap.filter === 'bilinear'
+      ? this.densityMapSampler.sampleBilinear(u, v, densityMap.channel)
+      : this.densityMapSampler.sample(u, v, densityMap.channel);
+    return (densityMap.invert ? 1 - value : value) * densityMap.multiplier;
+  }
+
+  /**
+   * Sample the world-continuous noise field at a world position, shaped by noiseDistribution
+   * (also with noise-based placement disabled)
+   */
+  sampleNoise(worldX: number, worldZ: number): number {
+    return this.getNoiseValue(worldX, worldZ, this.getGlobalNoise());
+  }
+
+  /**
+   * Deterministic seed for a world position, e.g. for per-instance random values
+   */
+  getPositionSeed(worldX: number, worldZ: number, salt: number = 0): number {
+    return this.hashInts(Math.round(worldX * 1000), Math.round(worldZ * 1000), salt);
+  }
+
+  /**
+   * Keep a candidate with probability equal to the density map at its world XZ.
+   * Uses a positional hash rather than the chunk random sequence, so a candidate's
+   * fate doesn't depend on what was generated before it.
+   */
+  private passesDensityMap(x: number, z: number): boolean {
+    return this.hashPosition(x, z) < this.sampleDensity(x, z);
+  }
+
+  /**
+   * Deterministic value in [0, 1) for a world position
+   */
+  protected hashPosition(x: number, z: number, salt: number = 0): number {
+    return this.getPositionSeed(x, z, salt) / 4294967296;
+  }
+
+  /**
+   * Deterministic 32-bit hash of integer coordinates and randomSeed
+   */
+  protected hashInts(a: number, b: number, c: number = 0): number {
+    let h = Math.imul(a ^ this.settings.randomSeed, 0x85ebca6b);
+    h ^= Math.imul(b, 0xc2b2ae35);
+    h ^= Math.imul(c, 0x27d4eb2f);
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x27d4eb2d);
+    h ^= h >>> 15;
+    return h >>> 0;
+  }
+
+  /**
+   * Random sequence seeded from integer coordinates (a lattice cell, point or item index)
+   */
+  protected createHashedRandom(a: number, b: number = 0, c: number = 0): SeededRandom {
+    return new SeededRandom(this.hashInts(a, b, c));
+  }
+
+  /**
+   * Visit the global placement cells owned by a chunk (those whose center lies in it).
+   * Each cell has its own random sequence seeded from its integer coordinates and
+   * randomSeed, so the candidates in a cell are the same for any chunkSize.
+   * When chunkSize is not a multiple of the cell size, candidates may extend
+   * up to one cell past the chunk bounds.
+   */
+  protected forEachCell(
+    task: ChunkTask,
+    callback: (minX: number, minZ: number, cellSize: number, rng: SeededRandom) => void
+  ): void {
+    const cellSize = this.settings.cellSize;
+    const halfSize = this.settings.chunkSize / 2;
+    const startX = Math.ceil((task.centerX - halfSize) / cellSize - 0.5);
+    const endX = Math.ceil((task.centerX + halfSize) / cellSize - 0.5);
+    const startZ = Math.ceil((task.centerZ - halfSize) / cellSize - 0.5);
+    const endZ = Math.ceil((task.centerZ + halfSize) / cellSize - 0.5);
+
+    for (let cx = startX; cx < endX; cx++) {
+      for (let cz = startZ; cz < endZ; cz++) {
+        callback(cx * cellSize, cz * cellSize, cellSize, this.createHashedRandom(cx, cz));
+      }
+    }
+  }
+
+  /**
+   * Visit a chunk's candidate points for area placement, spread by settings.distribution.
+   * Each point comes with the random sequence for the rest of its placement:
+   * - 'random': uniform points per lattice cell; the cell's sequence continues after each point
+   * - 'jittered-grid': one point per global grid cell of 1 / sqrt(density), jittered no closer than minSpacing
+   * - 'poisson': uniform points thinned so no two are closer than minSpacing (hard-core thinning;
+   *   the candidate with the lower hash wins), with extra candidates so the requested density is kept
+   *   up to the packing limit
+   * Points and thinning only depend on world positions, so spacing holds across chunk borders
+   * and doesn't depend on chunkSize.
+   * @param density - Points per unit area
+   * @param skipCell - Skips grid cells that can't hold candidates
+   */
+  protected forEachAreaPoint(
+    task: ChunkTask,
+    density: number,
+    callback: (x: number, z: number, rng: SeededRandom) => void,
+    skipCell?: (minX: number, minZ: number, cellSize: number) => boolean
+  ): void {
+    switch (this.settings.distribution) {
+      case 'jittered-grid':
+        this.forEachJitteredPoint(task, density, callback, skipCell);
+        break;
+      case 'poisson':
+        this.forEachPoissonPoint(task, density, callback, skipCell);
+        break;
+      default:
+        this.forEachCell(task, (minX, minZ, cellSize, rng) => {
+          if (skipCell?.(minX, minZ, cellSize)) return;
+          const count = this.getCandidateCount(cellSize * cellSize * density, rng);
+          for (let i = 0; i < count; i++) {
+            const x = minX + rng.next() * cellSize;
+            const z = minZ + rng.next() * cellSize;
+            callback(x, z, rng);
+          }
+        });
+    }
+  }
+
+  private forEachJitteredPoint(
+    task: ChunkTask,
+    density: number,
+    callback: (x: number, z: number, rng: SeededRandom) => void,
+    skipCell?: (minX: number, minZ: number, cellSize: number) => boolean
+  ): void {
+    if (density <= 0) return;
+    const spacing = Math.max(1 / Math.sqrt(density), this.settings.minSpacing);
+    // Points stay inside their grid cell, at least minSpacing from every neighbour
+    const jitter = spacing - this.settings.minSpacing;
+    const halfSize = this.settings.chunkSize / 2;
+    const startX = Math.floor((task.centerX - halfSize) / spacing);
+    const endX = Math.floor((task.centerX + halfSize) / spacing);
+    const startZ = Math.floor((task.centerZ - halfSize) / spacing);
+    const endZ = Math.floor((task.centerZ + halfSize) / spacing);
+
+    for (let gx = startX; gx <= endX; gx++) {
+      for (let gz = startZ; gz <= endZ; gz++) {
+        if (skipCell?.(gx * spacing, gz * spacing, spacing)) continue;
+        const rng = this.createHashedRandom(gx, gz, JITTER_SALT);
+        const x = (gx + 0.5) * spacing + (rng.next() - 0.5) * jitter;
+        const z = (gz + 0.5) * spacing + (rng.next() - 0.5) * jitter;
+        if (this.isInChunk(task, x, z)) callback(x, z, rng);
+      }
+    }
+  }
+
+  private forEachPoissonPoint(
+    task: ChunkTask,
+    density: number,
+    callback: (x: number, z: number, rng: SeededRandom) => void,
+    skipCell?: (minX: number, minZ: number, cellSize: number) => boolean
+  ): void {
+    const spacing = this.settings.minSpacing;
+    const diskArea = Math.PI * spacing * spacing;
+    // Thinning keeps 1 - e^(-λA) / A of λ candidates per unit area; solve for the requested density
+    const candidateDensity = spacing > 0
+      ? -Math.log(1 - Math.min(density * diskArea, MAX_POISSON_FILL)) / diskArea
+      : density;
+    const cellSize = this.settings.cellSize;
+    const reach = Math.ceil(spacing / cellSize);
+    const spacingSq = spacing * spacing;
+    const cells: Map<string, Float64Array> = new Map();
+
+    // Candidates of a lattice cell as [x, z, rank] triples, from a sequence used for nothing else
+    const getCell = (cx: number, cz: number): Float64Array => {
+      const key = `${cx}_${cz}`;
+      let points = cells.get(key);
+      if (!points) {
+        const rng = this.createHashedRandom(cx, cz, POISSON_SALT);
+        const count = this.getCandidateCount(cellSize * cellSize * candidateDensity, rng);
+        points = new Float64Array(count * 3);
+        for (let i = 0; i < count; i++) {
+          points[i * 3] = (cx + rng.next()) * cellSize;
+          points[i * 3 + 1] = (cz + rng.next()) * cellSize;
+          points[i * 3 + 2] = rng.next();
+        }
+        cells.set(key, points);
+      }
+      return points;
+    };
+
+    this.forEachCell(task, (minX, minZ) => {
+      if (skipCell?.(minX, minZ, cellSize)) return;
+      const cx = Math.round(minX / cellSize);
+      const cz = Math.round(minZ / cellSize);
+      const points = getCell(cx, cz);
+
+      for (let i = 0; i < points.length; i += 3) {
+        const x = points[i];
+        const z = points[i + 1];
+        const rank = points[i + 2];
+        let kept = true;
+
+        // Rejected when a lower-ranked candidate lies within minSpacing
+        for (let nx = cx - reach; nx <= cx + reach && kept; nx++) {
+          for (let nz = cz - reach; nz <= cz + reach && kept; nz++) {
+            const neighbours = getCell(nx, nz);
+            for (let j = 0; j < neighbours.length; j += 3) {
+              const dx = neighbours[j] - x;
+              const dz = neighbours[j + 1] - z;
+              if (dx * dx + dz * dz >= spacingSq || (nx === cx && nz === cz && j === i)) continue;
+              if (neighbours[j + 2] < rank || (neighbours[j + 2] === rank && j < i)) {
+                kept = false;
+                break;
+              }
+            }
+          }
+        }
+
+        if (kept) callback(x, z, this.createHashedRandom(cx, cz, POISSON_SALT + 1 + i / 3));
+      }
+    });
+  }
+
+  /**
+   * Whether a world XZ position belongs to a chunk (min inclusive, max exclusive)
+   */
+  protected isInChunk(task: ChunkTask, x: number, z: number): boolean {
+    const halfSize = this.settings.chunkSize / 2;
+    return x >= task.centerX - halfSize && x < task.centerX + halfSize &&
+      z >= task.centerZ - halfSize && z < task.centerZ + halfSize;
+  }
+
+  /**
+   * Whole number of candidates for an expected (fractional) count
+   */
+  protected getCandidateCount(expected: number, rng: SeededRandom): number {
+    const whole = Math.floor(expected);
+    return whole + (rng.next() < expected - whole ? 1 : 0);
+  }
+
+  /**
+   * Deterministic seed for a chunk
+   */
+  protected getChunkSeed(task: ChunkTask): number {
+    return ((task.centerX * 73856093) ^ (task.centerZ * 19349663) ^ this.settings.randomSeed) >>> 0;
+  }
+
+  /**
+   * Random generator seeded by chunk position.
+   * Output then depends on chunkSize; built-in generators use forEachCell() or createHashedRandom().
+   */
+  protected createRandom(task: ChunkTask): SeededRandom {
+    return new SeededRandom(this.getChunkSeed(task));
+  }
+
+  /**
+   * Noise field for a chunk: one world-continuous field seeded by randomSeed,
+   * or a field seeded by chunk position with noiseDistribution.perChunkSeed
+   */
+  protected createNoise(task: ChunkTask): PerlinNoise {
+    if (this.settings.noiseDistribution.perChunkSeed) {
+      return new PerlinNoise(this.getChunkSeed(task));
+    }
+    return this.getGlobalNoise();
+  }
+
+  private getGlobalNoise(): PerlinNoise {
+    if (!this.globalNoise) {
+      this.globalNoise = new PerlinNoise(this.settings.randomSeed);
+    }
+    return this.globalNoise;
+  }
+
+  /**
+   * Get noise value at position
+   */
+  protected getNoiseValue(x: number, z: number, noise: PerlinNoise): number {
+    const cfg = this.settings.noiseDistribution;
+    const noiseValue = noise.fbm2D(
+      x, z,
+      cfg.octaves,
+      cfg.persistence,
+      cfg.lacunarity,
+      cfg.scale
+    );
+    return Math.pow(noiseValue + cfg.offset, cfg.power);
+  }
+
+  /**
+   * Check if instance should be placed at position based on noise
+   */
+  protected shouldPlaceInstance(x: number, z: number, noise: PerlinNoise): boolean {
+    if (!this.settings.noiseDistribution.enabled) return true;
+    const noiseValue = this.getNoiseValue(x, z, noise);
+    return noiseValue >= this.settings.noiseDistribution.threshold;
+  }
+
+  /**
+   * Run the placement rules on a candidate, counting the rule that rejects it.
+   * Generators call this with the surface position, before heightOffset is applied.
+   * @param normal - Surface normal (default: up)
+   */
+  protected passesPlacementRules(position: THREE.Vector3, normal: THREE.Vector3 = UP): boolean {
+    if (!this.placementRules) return true;
+    const rejectedBy = this.placementRules.test(position, normal);
+    if (rejectedBy === -1) return true;
+    if (this.rejections) this.rejections[rejectedBy]++;
+    return false;
+  }
+
+  /**
+   * Pick the source variant of one placement, weighted by variant weight.
+   * Draws from rng only when variants are configured, so single-source layouts are unchanged.
+   */
+  protected pickVariant(rng: SeededRandom): PlacementVariant {
+    const variants = this.placementVariants;
+    if (variants.length === 1) return variants[0];
+
+    let pick = rng.next() * this.totalVariantWeight;
+    for (const variant of variants) {
+      pick -= Math.max(0, variant.weight);
+      if (pick < 0) return variant;
+    }
+    return variants[variants.length - 1];
+  }
+
+  /**
+   * Create transform for an instance with optional normal alignment
+   */
+  protected createInstanceTransform(
+    position: THREE.Vector3,
+    rng: SeededRandom,
+    normal?: THREE.Vector3
+  ): { position: THREE.Vector3; rotation: THREE.Euler; scale: THREE.Vector3; variant: number } {
+    position.y += this.settings.heightOffset;
+
+    const variant = this.pickVariant(rng);
+    const rotation = new THREE.Euler(0, rng.range(...variant.rotationRange), 0);
+
+    if (this.settings.alignToNormal && normal) {
+      const up = new THREE.Vector3(0, 1, 0);
+      const quaternion = new THREE.Quaternion().setFromUnitVectors(up, normal);
+      rotation.setFromQuaternion(quaternion);
+      rotation.y += rng.range(...variant.rotationRange);
+    }
+
+    const baseScale = rng.range(...variant.scaleRange);
+    const scale = new THREE.Vector3(baseScale, baseScale, baseScale);
+
+    return { position, rotation, scale, variant: variant.index };
+  }
+
+  /**
+   * Append an instance matrix to a packed output array, after running the transform modifiers
+   * @param variant - Source variant index of the instance (default: 0)
+   * @param normal - Surface normal seen by the modifiers and instance attributes (default: up)
+   */
+  protected pushTransform(
+    out: number[],
+    position: THREE.Vector3,
+    rotation: THREE.Euler,
+    scale: THREE.Vector3,
+    variant: number = 0,
+    normal: THREE.Vector3 = UP
+  ): void {
+    this._quaternion.setFromEuler(rotation);
+    if (this.transformModifiers) {
+      const seed = this.getPositionSeed(position.x, position.z, MODIFIER_SALT);
+      const modified = this.transformModifiers.apply(position, this._quaternion, scale, normal, variant, seed);
+      this._matrix.compose(modified.position, modified.quaternion, modified.scale);
+    } else {
+      this._matrix.compose(position, this._quaternion, scale);
+    }
+    for (let i = 0; i < 16; i++) {
+      out.push(this._matrix.elements[i]);
+    }
+    this.candidateVariants.push(variant);
+    this.candidateNormals.push(normal.x, normal.y, normal.z);
+  }
+}
+
+/**
+ * Factory creating a generator from settings and structured-cloneable params
+ */
+export type ChunkGeneratorFactory<TParams = unknown> = (settings: GenerationSettings, params: TParams) => ChunkGenerator;
+
+/**
+ * Registry of generator types, shared by the main thread and scatter workers
+ */
+export class ChunkGeneratorRegistry {
+  private static factories: Map<string, ChunkGeneratorFactory> = new Map();
+
+  /**
+   * Register a generator type
+   * @param factory - Receives the params of the system using this type (its getGeneratorParams())
+   */
+  static register<TParams>(type: string, factory: ChunkGeneratorFactory<TParams>): void {
+    // Params of a type always come from the system that declares it, so the factory sees its own shape
+    this.factories.set(type, factory as ChunkGeneratorFactory);
+  }
+
+  /**
+   * Create a generator of a registered type
+   */
+  static create(type: string, settings: GenerationSettings, params: unknown): ChunkGenerator {
+    const factory = this.factories.get(type);
+    if (!factory) {
+      throw new Error(`Unknown chunk generator type: ${type}`);
+    }
+    return factory(settings, params);
+  }
+
+  /**
+   * Check whether a generator type is registered
+   */
+  static has(type: string): boolean {
+    return this.factories.has(type);
+  }
+}
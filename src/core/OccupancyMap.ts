@@ -0,0 +1,185 @@
+import type * as THREE from 'three';
+
+/**
+ * Scatter system sharing an OccupancyMap
+ */
+export interface OccupancyMember {
+  /** Whether the member can generate footprints yet */
+  isOccupancyReady(): boolean;
+  /** XZ positions of a chunk's instances, packed as pairs */
+  getOccupancyFootprints(chunkX: number, chunkZ: number): Float32Array;
+  /** Regenerate every chunk, e.g. after footprints of a higher-priority member changed */
+  regenerateAll(): void;
+  /** Regenerate the chunks overlapping an XZ rectangle, as (x, z) */
+  regenerateRegion(region: THREE.Box2): void;
+}
+
+interface MemberEntry {
+  id: number;
+  member: OccupancyMember;
+  priority: number;
+  radius: number;
+  chunkSize: number;
+  /** How far footprints of a chunk may lie outside the chunk */
+  spill: number;
+}
+
+/**
+ * Spatial hash of instance footprints shared by several scatter systems.
+ * Candidates of a system are rejected where they overlap a footprint of a system
+ * with higher priority; systems with equal priority ignore each other.
+ * Footprints are generated per chunk on demand, whether or not the higher-priority
+ * system has that chunk active, so placement doesn't depend on which chunks
+ * were activated first (or on the camera path).
+ */
+export class OccupancyMap {
+  private members: MemberEntry[] = [];
+  /** Footprints of loaded member chunks keyed by "member:chunkX_chunkZ", least recently used first */
+  private footprints: Map<string, Float32Array> = new Map();
+  private maxChunks: number;
+  private nextId: number = 0;
+
+  /**
+   * @param maxChunks - Member chunks whose footprints are kept; older ones are regenerated when needed
+   */
+  constructor(maxChunks: number = 1024) {
+    this.maxChunks = maxChunks;
+  }
+
+  /**
+   * Add a system to the map
+   * @param radius - Footprint radius of each of its instances
+   * @param chunkSize - Chunk size of the system's grid
+   * @param spill - How far footprints of a chunk may lie outside the chunk
+   */
+  register(member: OccupancyMember, priority: number, radius: number, chunkSize: number, spill: number = 0): void {
+    if (this.members.some(entry => entry.member === member)) {
+      throw new Error('Scatter system is already registered in this occupancy map');
+    }
+    this.members.push({ id: this.nextId++, member, priority, radius, chunkSize, spill });
+  }
+
+  /**
+   * Remove a system; lower-priority systems regenerate without its footprints
+   */
+  unregister(member: OccupancyMember): void {
+    const entry = this.members.find(candidate => candidate.member === member);
+    if (!entry) return;
+    this.members.splice(this.members.indexOf(entry), 1);
+    this.dropFootprints(entry);
+    this.regenerateBelow(entry.priority);
+  }
+
+  /**
+   * Forget a system's footprints after its placement changed; lower-priority systems regenerate
+   */
+  invalidate(member: OccupancyMember): void {
+    const entry = this.members.find(candidate => candidate.member === member);
+    if (!entry) return;
+    this.dropFootprints(entry);
+    this.regenerateBelow(entry.priority);
+  }
+
+  /**
+   * Forget a system's footprints in an XZ rectangle, as (x, z), after its placement changed there;
+   * lower-priority systems regenerate around it
+   */
+  invalidateRegion(member: OccupancyMember, region: THREE.Box2): void {
+    const entry = this.members.find(candidate => candidate.member === member);
+    if (!entry) return;
+
+    const prefix = `${entry.id}:`;
+    const size = entry.chunkSize;
+    const spill = entry.spill;
+    for (const key of [...this.footprints.keys()]) {
+      if (!key.startsWith(prefix)) continue;
+      const [cx, cz] = key.slice(prefix.length).split('_').map(Number);
+      if (cx * size - spill <= region.max.x && (cx + 1) * size + spill >= region.min.x &&
+        cz * size - spill <= region.max.y && (cz + 1) * size + spill >= region.min.y) {
+        this.footprints.delete(key);
+      }
+    }
+
+    for (const other of [...this.members]) {
+      if (other.priority < entry.priority) {
+        other.member.regenerateRegion(region.clone().expandByScalar(entry.radius + other.radius));
+      }
+    }
+  }
+
+  /**
+   * Whether every system with higher priority can generate footprints
+   */
+  isReady(priority: number): boolean {
+    return this.members.every(entry => entry.priority <= priority || entry.member.isOccupancyReady());
+  }
+
+  /**
+   * Whether a footprint overlaps a footprint of a system with higher priority
+   */
+  isOccupied(x: number, z: number, radius: number, priority: number): boolean {
+    for (const entry of this.members) {
+      if (entry.priority <= priority) continue;
+      const reach = radius + entry.radius;
+      const reachSq = reach * reach;
+      const size = entry.chunkSize;
+      // Footprints are stored by owning chunk, which may sit up to the spill away
+      const search = reach + entry.spill;
+      const startX = Math.floor((x - search) / size);
+      const endX = Math.floor((x + search) / size);
+      const startZ = Math.floor((z - search) / size);
+      const endZ = Math.floor((z + search) / size);
+
+      for (let cx = startX; cx <= endX; cx++) {
+        for (let cz = startZ; cz <= endZ; cz++) {
+          const points = this.getFootprints(entry, cx, cz);
+          for (let i = 0; i < points.length; i += 2) {
+            const dx = points[i] - x;
+            const dz = points[i + 1] - z;
+            if (dx * dx + dz * dz < reachSq) return true;
+          }
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Forget every loaded footprint (they are regenerated when needed)
+   */
+  clear(): void {
+    this.footprints.clear();
+  }
+
+  private getFootprints(entry: MemberEntry, cx: number, cz: number): Float32Array {
+    const key = `${entry.id}:${cx}_${cz}`;
+    let points = this.footprints.get(key);
+
+    if (points) {
+      this.footprints.delete(key);
+    } else {
+      const size = entry.chunkSize;
+      points = entry.member.getOccupancyFootprints(cx * size + size / 2, cz * size + size / 2);
+    }
+    this.footprints.set(key, points);
+
+    for (const oldestKey of this.footprints.keys()) {
+      if (this.footprints.size <= this.maxChunks) break;
+      this.footprints.delete(oldestKey);
+    }
+    return points;
+  }
+
+  private dropFootprints(entry: MemberEntry): void {
+    const prefix = `${entry.id}:`;
+    for (const key of [...this.footprints.keys()]) {
+      if (key.startsWith(prefix)) this.footprints.delete(key);
+    }
+  }
+
+  private regenerateBelow(priority: number): void {
+    for (const entry of [...this.members]) {
+      if (entry.priority < priority) entry.member.regenerateAll();
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import * as THREE from 'three';
+import type { PlacementCandidate } from './types';
+import { ImageSampler, PerlinNoise } from '../utils';
+import type { ImageChannel, RawImageData } from '../utils';
+
+/**
+ * A placement rule in a worker-transferable form (custom rules keep their predicate and stay on the main thread)
+ */
+export type PlacementRuleSettings =
+  | { type: 'altitude'; min: number; max: number }
+  | { type: 'slope'; min: number; max: number }
+  | { type: 'noise'; threshold: number; scale: number; invert: boolean; seed: number }
+  | {
+    type: 'mask';
+    image: RawImageData;
+    /** World XZ rectangle the image maps to: [minX, minZ, maxX, maxZ] */
+    bounds: [number, number, number, number];
+    channel: ImageChannel;
+    threshold: number;
+    outOfBoundsValue: number;
+    invert: boolean;
+  }
+  | {
+    type: 'distance';
+    /** Target XZ positions, packed as pairs */
+    points: Float32Array;
+    min: number;
+    max: number;
+  }
+  | {
+    type: 'region';
+    inside: boolean;
+    /** [minX, minY, minZ, maxX, maxY, maxZ] */
+    box: [number, number, number, number, number, number] | null;
+    /** [x, y, z, radius] */
+    sphere: [number, number, number, number] | null;
+    /** Polygon XZ vertices, packed as pairs */
+    polygon: Float32Array | null;
+  }
+  | { type: 'custom'; predicate: (candidate: PlacementCandidate) => boolean };
+
+type RuleTest = (position: THREE.Vector3, normal: THREE.Vector3) => boolean;
+
+/**
+ * Compiled placement rules of a generator.
+ * Every rule only depends on the candidate's position and normal, so results
+ * are the same for any chunkSize and on the main thread or in a worker.
+ */
+export class PlacementRuleSet {
+  private tests: RuleTest[];
+  private candidate: PlacementCandidate = { position: new THREE.Vector3(), normal: new THREE.Vector3() };
+
+  constructor(rules: PlacementRuleSettings[], randomSeed: number) {
+    this.tests = rules.map(rule => this.compile(rule, randomSeed));
+  }
+
+  /**
+   * Number of rules
+   */
+  get size(): number {
+    return this.tests.length;
+  }
+
+  /**
+   * Run the rules on a candidate
+   * @returns Index of the first rule rejecting it, or -1 when every rule passes
+   */
+  test(position: THREE.Vector3, normal: THREE.Vector3): number {
+    for (let i = 0; i < this.tests.length; i++) {
+      if (!this.tests[i](position, normal)) return i;
+    }
+    return -1;
+  }
+
+  private compile(rule: PlacementRuleSettings, randomSeed: number): RuleTest {
+    switch (rule.type) {
+      case 'altitude':
+        return position => position.y >= rule.min && position.y <= rule.max;
+
+      case 'slope': {
+        // Compare normal.y against cosines instead of converting every candidate to degrees
+        const maxY = Math.cos(THREE.MathUtils.degToRad(rule.min));
+        const minY = Math.cos(THREE.MathUtils.degToRad(rule.max));
+        return (_, normal) => normal.y >= minY - 1e-9 && normal.y <= maxY + 1e-9;
+      }
+
+      case 'noise': {
+        const noise = new PerlinNoise(randomSeed + rule.seed);
+        return position => {
+          const value = noise.fbm2D(position.x, position.z, 3, 0.5, 2, rule.scale);
+          return rule.invert ? value < rule.threshold : value >= rule.threshold;
+        };
+      }
+
+      case 'mask': {
+        const sampler = new ImageSampler(rule.image);
+        const [minX, minZ, maxX, maxZ] = rule.bounds;
+        return position => {
+          const u = (position.x - minX) / (maxX - minX);
+          const v = (position.z - minZ) / (maxZ - minZ);
+          let value = u < 0 || u > 1 || v < 0 || v > 1
+            ? rule.outOfBoundsValue
+            : sampler.sample(u, v, rule.channel);
+          if (rule.invert) value = 1 - value;
+          return value >= rule.threshold;
+        };
+      }
+
+      case 'distance': {
+        const { points } = rule;
+        const minSq = rule.min * rule.min;
+        const maxSq = rule.max * rule.max;
+        return position => {
+          let nearestSq = Infinity;
+          for (let i = 0; i < points.length; i += 2) {
+            const dx = points[i] - position.x;
+            const dz = points[i + 1] - position.z;
+            nearestSq = Math.min(nearestSq, dx * dx + dz * dz);
+          }
+          return nearestSq >= minSq && nearestSq <= maxSq;
+        };
+      }
+
+      case 'region':
+        return position => isInRegion(rule, position) === rule.inside;
+
+      case 'custom': {
+        const candidate = this.candidate;
+        return (position, normal) => {
+          candidate.position.copy(position);
+          candidate.normal.copy(normal);
+          return rule.predicate(candidate);
+        };
+      }
+    }
+  }
+}
+
+/**
+ * Whether a position lies in any shape of a region rule
+ */
+function isInRegion(rule: Extract<PlacementRuleSettings, { type: 'region' }>, position: THREE.Vector3): boolean {
+  const { x, y, z } = position;
+  const { box, sphere, polygon } = rule;
+
+  if (box && x >= box[0] && y >= box[1] && z >= box[2] && x <= box[3] && y <= box[4] && z <= box[5]) {
+    return true;
+  }
+  if (sphere) {
+    const dx = x - sphere[0];
+    const dy = y - sphere[1];
+    const dz = z - sphere[2];
+    if (dx * dx + dy * dy + dz * dz <= sphere[3] * sphere[3]) return true;
+  }
+  return !!polygon && isInPolygon(polygon, x, z);
+}
+
+/**
+ * Whether an XZ point lies in a polygon (vertices packed as pairs), by even-odd ray cast along +X
+ */
+export function isInPolygon(polygon: ArrayLike<number>, x: number, z: number): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 2; i < polygon.length; j = i, i += 2) {
+    const xi = polygon[i];
+    const zi = polygon[i + 1];
+    const xj = polygon[j];
+    const zj = polygon[j + 1];
+    if ((zi > z) !== (zj > z) && x < (xj - xi) * (z - zi) / (zj - zi) + xi) inside = !inside;
+  }
+  return inside;
+}
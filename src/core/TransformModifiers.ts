@@ -0,0 +1,135 @@
+import * as THREE from 'three';
+import type { TransformModifierContext } from './types';
+import { SeededRandom } from '../utils';
+
+/**
+ * A transform modifier in a worker-transferable form (custom modifiers keep their function and stay on the main thread)
+ */
+export type TransformModifierSettings =
+  | { type: 'alignToNormal'; amount: number }
+  | { type: 'tilt'; maxAngle: number }
+  | { type: 'scale'; x: [number, number]; y: [number, number]; z: [number, number] }
+  | { type: 'fieldScale'; field: 'noise' | 'densityMap'; range: [number, number] }
+  | { type: 'snapRotation'; step: number }
+  | { type: 'faceToward'; target: [number, number, number]; away: boolean }
+  | { type: 'custom'; apply: (instance: TransformModifierContext) => void };
+
+/**
+ * World fields a modifier stack can sample
+ */
+export interface TransformModifierFields {
+  sampleNoise(x: number, z: number): number;
+  sampleDensity(x: number, z: number): number;
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Ordered transform modifiers of a generator.
+ * Random draws come from a sequence seeded by the instance position, so modified
+ * transforms are the same for any chunkSize and on the main thread or in a worker.
+ */
+export class TransformModifierStack {
+  private modifiers: TransformModifierSettings[];
+  private fields: TransformModifierFields;
+  private context: TransformModifierContext = {
+    position: new THREE.Vector3(),
+    quaternion: new THREE.Quaternion(),
+    scale: new THREE.Vector3(),
+    normal: new THREE.Vector3(),
+    rng: new SeededRandom(0),
+    variant: 0
+  };
+  private _quaternion: THREE.Quaternion = new THREE.Quaternion();
+  private _blend: THREE.Quaternion = new THREE.Quaternion();
+  private _euler: THREE.Euler = new THREE.Euler(0, 0, 0, 'YXZ');
+  private _axis: THREE.Vector3 = new THREE.Vector3();
+
+  constructor(modifiers: TransformModifierSettings[], fields: TransformModifierFields) {
+    this.modifiers = modifiers;
+    this.fields = fields;
+  }
+
+  /**
+   * Run every modifier on a transform
+   * @param seed - Seed of the instance's random sequence
+   * @returns Modified transform (reused between calls)
+   */
+  apply(
+    position: THREE.Vector3,
+    quaternion: THREE.Quaternion,
+    scale: THREE.Vector3,
+    normal: THREE.Vector3,
+    variant: number,
+    seed: number
+  ): TransformModifierContext {
+    const ctx = this.context;
+    ctx.position.copy(position);
+    ctx.quaternion.copy(quaternion);
+    ctx.scale.copy(scale);
+    ctx.normal.copy(normal);
+    ctx.rng.setSeed(seed);
+    ctx.variant = variant;
+
+    for (const modifier of this.modifiers) {
+      this.applyModifier(modifier, ctx);
+    }
+    return ctx;
+  }
+
+  private applyModifier(modifier: TransformModifierSettings, ctx: TransformModifierContext): void {
+    const { position, quaternion, scale, rng } = ctx;
+
+    switch (modifier.type) {
+      case 'alignToNormal': {
+        // Rotate part of the way from world up onto the surface normal
+        this._quaternion.setFromUnitVectors(UP, ctx.normal);
+        quaternion.premultiply(this._blend.identity().slerp(this._quaternion, modifier.amount));
+        break;
+      }
+
+      case 'tilt': {
+        // Random axis on the XZ plane, angle spread evenly over the cone's cap
+        const heading = rng.next() * Math.PI * 2;
+        const angle = Math.acos(1 - rng.next() * (1 - Math.cos(modifier.maxAngle)));
+        this._axis.set(Math.cos(heading), 0, Math.sin(heading));
+        quaternion.premultiply(this._quaternion.setFromAxisAngle(this._axis, angle));
+        break;
+      }
+
+      case 'scale':
+        scale.x *= rng.range(...modifier.x);
+        scale.y *= rng.range(...modifier.y);
+        scale.z *= rng.range(...modifier.z);
+        break;
+
+      case 'fieldScale': {
+        const value = modifier.field === 'noise'
+          ? this.fields.sampleNoise(position.x, position.z)
+          : this.fields.sampleDensity(position.x, position.z);
+        const t = THREE.MathUtils.clamp(value, 0, 1);
+        scale.multiplyScalar(modifier.range[0] + (modifier.range[1] - modifier.range[0]) * t);
+        break;
+      }
+
+      case 'snapRotation': {
+        const euler = this._euler.setFromQuaternion(quaternion);
+        euler.y = Math.round(euler.y / modifier.step) * modifier.step;
+        quaternion.setFromEuler(euler);
+        break;
+      }
+
+      case 'faceToward': {
+        const [x, , z] = modifier.target;
+        const euler = this._euler.setFromQuaternion(quaternion);
+        euler.y = Math.atan2(x - position.x, z - position.z) + (modifier.away ? Math.PI : 0);
+        quaternion.setFromEuler(euler);
+        break;
+      }
+
+      case 'custom':
+        modifier.apply(ctx);
+        break;
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import * as THREE from 'three';
+import type { ZoneShape } from './types';
+import { isInPolygon } from './PlacementRules';
+
+interface CompiledZone {
+  include: boolean;
+  /** XZ bounds, as (x, z) */
+  bounds: THREE.Box2;
+  contains: (x: number, y: number, z: number) => boolean;
+}
+
+/** Most segments a spline zone is split into by default */
+const MAX_SPLINE_DIVISIONS = 4096;
+
+/**
+ * Runtime inclusion and exclusion zones of a scatter system.
+ * Exclusion zones always reject; once an inclusion zone exists,
+ * positions must also lie in at least one of them.
+ */
+export class ZoneSet {
+  private zones: Map<number, CompiledZone> = new Map();
+  private inclusions: number = 0;
+  private nextId: number = 0;
+  private _point: THREE.Vector2 = new THREE.Vector2();
+
+  /**
+   * Number of zones
+   */
+  get size(): number {
+    return this.zones.size;
+  }
+
+  /**
+   * Whether any inclusion zone exists
+   */
+  hasInclusions(): boolean {
+    return this.inclusions > 0;
+  }
+
+  /**
+   * Add a zone
+   * @returns Zone id
+   */
+  add(shape: ZoneShape, include: boolean): number {
+    const id = this.nextId++;
+    this.zones.set(id, compileZone(shape, include));
+    if (include) this.inclusions++;
+    return id;
+  }
+
+  /**
+   * Replace the shape of a zone, e.g. to move it
+   */
+  update(id: number, shape: ZoneShape): void {
+    const zone = this.zones.get(id);
+    if (!zone) throw new Error(`Unknown scatter zone ${id}`);
+    this.zones.set(id, compileZone(shape, zone.include));
+  }
+
+  /**
+   * Remove a zone
+   * @returns Whether the zone existed
+   */
+  remove(id: number): boolean {
+    const zone = this.zones.get(id);
+    if (!zone) return false;
+    this.zones.delete(id);
+    if (zone.include) this.inclusions--;
+    return true;
+  }
+
+  /**
+   * XZ bounds of a zone, as (x, z), or null for an unknown id
+   */
+  getBounds(id: number): THREE.Box2 | null {
+    return this.zones.get(id)?.bounds ?? null;
+  }
+
+  /**
+   * Whether an instance may be placed at a position
+   */
+  allows(x: number, y: number, z: number): boolean {
+    const point = this._point.set(x, z);
+    let included = this.inclusions === 0;
+
+    for (const zone of this.zones.values()) {
+      if (!zone.bounds.containsPoint(point) || !zone.contains(x, y, z)) continue;
+      if (!zone.include) return false;
+      included = true;
+    }
+    return included;
+  }
+}
+
+function compileZone(shape: ZoneShape, include: boolean): CompiledZone {
+  if (shape instanceof THREE.Box3) {
+    const box = shape.clone();
+    return {
+      include,
+      bounds: new THREE.Box2(new THREE.Vector2(box.min.x, box.min.z), new THREE.Vector2(box.max.x, box.max.z)),
+      contains: (x, y, z) => x >= box.min.x && y >= box.min.y && z >= box.min.z &&
+        x <= box.max.x && y <= box.max.y && z <= box.max.z
+    };
+  }
+
+  if (shape instanceof THREE.Sphere) {
+    const { x: cx, y: cy, z: cz } = shape.center;
+    const radius = shape.radius;
+    return {
+      include,
+      bounds: new THREE.Box2(new THREE.Vector2(cx - radius, cz - radius), new THREE.Vector2(cx + radius, cz + radius)),
+      contains: (x, y, z) => (x - cx) ** 2 + (y - cy) ** 2 + (z - cz) ** 2 <= radius * radius
+    };
+  }
+
+  if ('polygon' in shape) {
+    const outline = new Float32Array(shape.polygon.flat());
+    const holes = (shape.holes ?? []).map(hole => new Float32Array(hole.flat()));
+    const bounds = new THREE.Box2();
+    for (const [x, z] of shape.polygon) bounds.expandByPoint(new THREE.Vector2(x, z));
+    return {
+      include,
+      bounds,
+      contains: (x, _, z) => isInPolygon(outline, x, z) && !holes.some(hole => isInPolygon(hole, x, z))
+    };
+  }
+
+  // Spline band: distance to the curve's polyline on the XZ plane
+  const halfWidth = shape.width / 2;
+  const divisions = shape.divisions ??
+    Math.min(MAX_SPLINE_DIVISIONS, Math.max(8, Math.ceil(shape.spline.getLength() / Math.max(halfWidth, 1e-3))));
+  const points = shape.spline.getSpacedPoints(divisions);
+  const line = new Float32Array(points.flatMap(point => [point.x, point.z]));
+  const bounds = new THREE.Box2();
+  for (const point of points) bounds.expandByPoint(new THREE.Vector2(point.x, point.z));
+  bounds.expandByScalar(halfWidth);
+
+  return {
+    include,
+    bounds,
+    contains: (x, _, z) => {
+      for (let i = 0; i + 3 < line.length; i += 2) {
+        if (segmentDistanceSq(x, z, line[i], line[i + 1], line[i + 2], line[i + 3]) <= halfWidth * halfWidth) return true;
+      }
+      return false;
+    }
+  };
+}
+
+/**
+ * Squared distance from a point to a segment on the XZ plane
+ */
+function segmentDistanceSq(x: number, z: number, ax: number, az: number, bx: number, bz: number): number {
+  const dx = bx - ax;
+  const dz = bz - az;
+  const lengthSq = dx * dx + dz * dz;
+  const t = lengthSq > 0 ? THREE.MathUtils.clamp(((x - ax) * dx + (z - az) * dz) / lengthSq, 0, 1) : 0;
+  const px = ax + dx * t - x;
+  const pz = az + dz * t - z;
+  return px * px + pz * pz;
+}
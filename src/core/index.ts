@@ -1,3 +1,12 @@
-export type { BaseScatterConfig, RequiredScatterConfig, NoiseDistributionConfig, ScatterEvents, ScatterStats, LODLevel, LODConfig, DensityMapConfig } from './types';
+export type { BaseScatterConfig, RequiredScatterConfig, NoiseDistributionConfig, ScatterEvents, ScatterStats, LODLevel, LODConfig, DensityMapConfig, ChunkStreamingConfig, ChunkCacheConfig, CapacityGrowthConfig, PoolExhaustionPolicy, HLODConfig, InstanceColorConfig, InstanceAttributeConfig, InstanceAttributeContext, WindConfig, PlacementRule, PlacementCandidate, AltitudeRule, SlopeRule, NoiseRule, MaskRule, DistanceRule, RegionRule, CustomRule, TransformModifier, TransformModifierContext, NormalAlignModifier, TiltModifier, AxisScaleModifier, FieldScaleModifier, SnapRotationModifier, FaceTowardModifier, CustomModifier, PointDistribution, OccupancyConfig, ZoneShape, PolygonZone, SplineZone, ScatterVariant, ScatterSource } from './types';
 export type { ChunkData } from './ChunkData';
 export { BaseScatterSystem } from './BaseScatterSystem';
+export { ChunkGenerator, ChunkGeneratorRegistry } from './ChunkGenerator';
+export type { ChunkTask, GenerationSettings, DensityMapSettings, ChunkGeneratorFactory, ChunkCandidates, VariantSettings, PlacementVariant } from './ChunkGenerator';
+export { PlacementRuleSet } from './PlacementRules';
+export type { PlacementRuleSettings } from './PlacementRules';
+export { TransformModifierStack } from './TransformModifiers';
+export { OccupancyMap } from './OccupancyMap';
+export { ZoneSet } from './Zones';
+export type { OccupancyMember } from './OccupancyMap';
+export type { TransformModifierSettings, TransformModifierFields } from './TransformModifiers';
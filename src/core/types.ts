@@ -1,4 +1,8 @@
 import * as THREE from 'three';
+import type { ImageChannel, ImageDataSource, ImageDecoder } from '../utils/ImageDataSource';
+import type { ScatterWorkerPool } from '../workers/ScatterWorkerPool';
+import type { OccupancyMap } from './OccupancyMap';
+import type { SeededRandom } from '../utils/SeededRandom';
 
 /**
  * Noise distribution configuration for procedural placement variation
@@ -13,6 +17,8 @@ export interface NoiseDistributionConfig {
   power?: number;
   offset?: number;
   scaleVariation?: number;
+  /** Seed a separate noise field per chunk instead of one world-continuous field (legacy, patterns break at chunk borders) */
+  perChunkSeed?: boolean;
 }
 
 /**
@@ -25,15 +31,34 @@ export interface ScatterEvents {
   onChunkDeactivated?: (chunkKey: string) => void;
   /** Called when scatter statistics change */
   onStatsChanged?: (stats: ScatterStats) => void;
+  /** Called when a chunk enters the build queue (lower priority builds first) */
+  onChunkQueued?: (chunkKey: string, priority: number) => void;
+  /** Called when a queued chunk has been populated */
+  onChunkBuilt?: (chunkKey: string, instanceCount: number, buildTimeMs: number) => void;
+  /** Called when a queued chunk leaves range before it was built */
+  onChunkCancelled?: (chunkKey: string) => void;
+  /** Called after instance capacity was grown to fit more instances */
+  onCapacityGrown?: (previousCapacity: number, newCapacity: number) => void;
+  /** Called when a chunk gets fewer instances than it should because the pool is exhausted */
+  onPoolExhausted?: (chunkKey: string, deniedCount: number) => void;
 }
 
 /**
  * Scatter system statistics
  */
 export interface ScatterStats {
-  instances: { active: number; total: number; max: number };
-  chunks: { total: number; active: number };
+  instances: { active: number; total: number; max: number; drawn: number };
+  chunks: { total: number; active: number; queued: number; merged: number };
+  cache: { chunks: number; bytes: number; hits: number; misses: number; hitRate: number };
+  /** GPU uploads queued by the latest update() */
+  uploads: { bytes: number; ranges: number };
   meshes: number;
+  /** Drawn instances per source variant (one entry for a single source) */
+  variants: Array<{ id: string; instances: number }>;
+  /** Drawn instances per geometry level, summed over variants (level 0 is the source) */
+  lodLevels: number[];
+  /** Candidates rejected by each placement rule in the active chunks, in rule order */
+  placementRules: Array<{ name: string; rejected: number }>;
 }
 
 /**
@@ -46,6 +71,11 @@ export interface LODLevel {
   densityMultiplier: number;
   /** Optional scale multiplier */
   scaleMultiplier?: number;
+  /**
+   * Lower-detail object drawn from this distance on, until a farther level sets another.
+   * With variant sources, a map from variant id to object; variants without an entry keep their current object.
+   */
+  source?: THREE.Mesh | THREE.Group | Record<string, THREE.Mesh | THREE.Group>;
 }
 
 /**
@@ -54,8 +84,142 @@ export interface LODLevel {
 export interface LODConfig {
   /** Array of LOD levels, ordered by distance (ascending) */
   levels: LODLevel[];
-  /** Blend distance between levels (optional smooth transition) */
+  /** Distance over which density ramps into the next level (optional smooth transition) */
   blendDistance?: number;
+  /** Distance an instance must pass a level boundary by before its geometry switches (default: 0) */
+  hysteresis?: number;
+}
+
+/**
+ * Hierarchical LOD: distant chunks are drawn as one merged mesh instead of instances
+ */
+export interface HLODConfig {
+  /** Chunks at least this far from the nearest viewer are merged */
+  distance: number;
+  /**
+   * Simplified object baked into merged chunks (default: the farthest LOD level source, else the source).
+   * With variant sources, a map from variant id to object.
+   */
+  source?: THREE.Mesh | THREE.Group | Record<string, THREE.Mesh | THREE.Group>;
+  /** Distance a chunk must pass the HLOD distance by before switching, in either direction (default: 0) */
+  hysteresis?: number;
+}
+
+/**
+ * Per-instance input to instance attribute generators.
+ * The object and its vectors are reused between instances; copy what you keep.
+ */
+export interface InstanceAttributeContext {
+  /** Instance position in the system's local space */
+  position: THREE.Vector3;
+  /** Surface normal the instance was placed on, or (0, 1, 0) for systems without one */
+  normal: THREE.Vector3;
+  /** Random sequence seeded from the instance position, shared by the generators of one instance */
+  rng: SeededRandom;
+  /** Noise field value at the instance (see noiseDistribution) */
+  noise: number;
+  /** Density map value at the instance (1 without a density map) */
+  density: number;
+  /** Key of the chunk showing the instance */
+  chunkKey: string;
+  /** Distance to the nearest viewer when the instance was shown */
+  distance: number;
+  /** Source variant id */
+  variant: string;
+}
+
+/**
+ * Custom per-instance attribute, available to shaders under `name`
+ */
+export interface InstanceAttributeConfig {
+  /** Attribute name */
+  name: string;
+  /** Floats per instance (1-4) */
+  itemSize: number;
+  /** Value of an instance, computed when the instance is shown */
+  generate: (ctx: InstanceAttributeContext) => number | ArrayLike<number>;
+}
+
+/**
+ * Per-instance color jitter written through InstancedMesh.setColorAt.
+ * Offsets are picked between [min, max] of each range.
+ */
+export interface InstanceColorConfig {
+  /** Base color multiplied into the material color (default: white) */
+  color?: THREE.ColorRepresentation;
+  /** Hue offset range in turns (default: [0, 0]) */
+  hueJitter?: [number, number];
+  /** Saturation offset range (default: [0, 0]) */
+  saturationJitter?: [number, number];
+  /** Lightness offset range (default: [0, 0]) */
+  lightnessJitter?: [number, number];
+  /** What picks the offsets: per-instance random values, or the noise field or density map value (default: 'random') */
+  driver?: 'random' | 'noise' | 'densityMap';
+}
+
+/**
+ * Vertex wind animation for foliage, patched into copies of the source materials
+ */
+export interface WindConfig {
+  /** Wind direction on the XZ plane (default: [1, 0]) */
+  direction?: [number, number];
+  /** Displacement at full bend, in model units (default: 0.3) */
+  strength?: number;
+  /** Sway cycles per second (default: 0.5) */
+  frequency?: number;
+  /** Extra strength added by gusts, as a fraction of strength (default: 0.5) */
+  gustStrength?: number;
+  /** World-space scale of the gust noise (default: 0.05) */
+  gustScale?: number;
+  /** Speed at which gusts travel along the wind direction (default: 2) */
+  gustSpeed?: number;
+  /** Float vertex attribute with the bend weight (0 at the root, 1 at the tip); default: model-space Y / bendHeight */
+  bendAttribute?: string;
+  /** Model-space height of full bend when bending by Y (default: 1) */
+  bendHeight?: number;
+  /** Curve of the bend weight; higher keeps the lower part stiffer (default: 2) */
+  bendExponent?: number;
+}
+
+/**
+ * Per-update budget for time-sliced chunk population
+ */
+export interface ChunkStreamingConfig {
+  /** Maximum milliseconds spent building chunks per update() (default: unlimited) */
+  frameBudgetMs?: number;
+  /** Maximum instances placed per update() (default: unlimited) */
+  instanceBudget?: number;
+}
+
+/**
+ * What to do when a chunk needs more instances than the pool has left.
+ * - 'fail': the chunk gets what is left
+ * - 'evict-farthest': take instances from the active chunks farthest from the viewers
+ * - 'reduce-far-lod': halve the density of LOD bands beyond the chunk's own band
+ * - 'grow': grow the pool and GPU buffers (see CapacityGrowthConfig)
+ */
+export type PoolExhaustionPolicy = 'fail' | 'evict-farthest' | 'reduce-far-lod' | 'grow';
+
+/**
+ * Automatic growth of instance capacity when the pool runs out
+ */
+export interface CapacityGrowthConfig {
+  /** Grow the pool and GPU buffers instead of denying instances; shorthand for poolExhaustion: 'grow' (default: false) */
+  enabled?: boolean;
+  /** Capacity multiplier per growth step (default: 2) */
+  growthFactor?: number;
+  /** Hard ceiling on capacity (default: maxInstances * 8) */
+  maxCapacity?: number;
+}
+
+/**
+ * LRU cache of transforms for recently hidden chunks
+ */
+export interface ChunkCacheConfig {
+  /** Maximum number of hidden chunks kept (default: 64, 0 disables the cache) */
+  maxChunks?: number;
+  /** Maximum bytes of cached transforms (default: 32 MB) */
+  maxBytes?: number;
 }
 
 /**
@@ -63,29 +227,309 @@ export interface LODConfig {
  */
 export interface DensityMapConfig {
   /** URL to density map texture */
-  textureUrl: string;
+  textureUrl?: string;
+  /** Pixel source used instead of textureUrl (buffer, DataTexture, ImageData, OffscreenCanvas or decoder) */
+  source?: ImageDataSource;
   /** Which channel to sample (default: 'r') */
-  channel?: 'r' | 'g' | 'b' | 'a';
+  channel?: ImageChannel;
   /** World bounds the texture maps to */
   worldBounds: THREE.Box2;
   /** Multiplier applied to sampled value */
   multiplier?: number;
+  /** Texture filtering (default: 'nearest') */
+  filter?: 'nearest' | 'bilinear';
+  /** Density used outside worldBounds (default: 1.0) */
+  outOfBoundsValue?: number;
+  /** Use 1 - value, so dark areas are dense (default: false) */
+  invert?: boolean;
+}
+
+/**
+ * Candidate position seen by a custom placement rule (read-only, reused between candidates)
+ */
+export interface PlacementCandidate {
+  /** Surface position in the system's local space, before heightOffset */
+  position: THREE.Vector3;
+  /** Surface normal, or (0, 1, 0) for systems without one */
+  normal: THREE.Vector3;
+}
+
+/**
+ * Keeps candidates whose surface height lies in [min, max]
+ */
+export interface AltitudeRule {
+  type: 'altitude';
+  /** Name shown in stats (default: the rule type) */
+  name?: string;
+  /** Lowest height (default: -Infinity) */
+  min?: number;
+  /** Highest height (default: Infinity) */
+  max?: number;
+}
+
+/**
+ * Keeps candidates whose surface slope in degrees lies in [min, max]
+ */
+export interface SlopeRule {
+  type: 'slope';
+  name?: string;
+  /** Flattest slope in degrees (default: 0) */
+  min?: number;
+  /** Steepest slope in degrees (default: 90) */
+  max?: number;
+}
+
+/**
+ * Keeps candidates where a world-continuous noise field (0-1) reaches a threshold
+ */
+export interface NoiseRule {
+  type: 'noise';
+  name?: string;
+  /** Minimum noise value to keep a candidate */
+  threshold: number;
+  /** Noise frequency in world units (default: 0.1) */
+  scale?: number;
+  /** Keep candidates below the threshold instead (default: false) */
+  invert?: boolean;
+  /** Offset added to randomSeed, so several noise rules can use different fields (default: 0) */
+  seed?: number;
+}
+
+/**
+ * Keeps candidates where a texture channel reaches a threshold
+ */
+export interface MaskRule {
+  type: 'mask';
+  name?: string;
+  /** URL to mask texture */
+  textureUrl?: string;
+  /** Pixel source used instead of textureUrl */
+  source?: ImageDataSource;
+  /** Which channel to sample (default: 'r') */
+  channel?: ImageChannel;
+  /** World bounds the texture maps to */
+  worldBounds: THREE.Box2;
+  /** Minimum channel value (0-1) to keep a candidate (default: 0.5) */
+  threshold?: number;
+  /** Value used outside worldBounds (default: 1) */
+  outOfBoundsValue?: number;
+  /** Use 1 - value (default: false) */
+  invert?: boolean;
+}
+
+/**
+ * Keeps candidates whose horizontal distance to the nearest target lies in [min, max].
+ * Target positions are read when the system (re)generates.
+ */
+export interface DistanceRule {
+  type: 'distance';
+  name?: string;
+  /** Objects (world position) or points (system local space) to measure from */
+  targets: Array<THREE.Object3D | THREE.Vector3>;
+  /** Closest allowed distance (default: 0) */
+  min?: number;
+  /** Farthest allowed distance (default: Infinity) */
+  max?: number;
+}
+
+/**
+ * Keeps candidates inside (or outside) a box, sphere or XZ polygon in the system's local space
+ */
+export interface RegionRule {
+  type: 'region';
+  name?: string;
+  /** Keep candidates inside or outside the region */
+  mode: 'inside' | 'outside';
+  box?: THREE.Box3;
+  sphere?: THREE.Sphere;
+  /** Polygon vertices on the XZ plane, as [x, z] pairs */
+  polygon?: Array<[number, number]>;
+}
+
+/**
+ * Keeps candidates for which a predicate returns true.
+ * Functions can't be sent to workers, so a custom rule keeps generation on the main thread.
+ */
+export interface CustomRule {
+  type: 'custom';
+  name?: string;
+  predicate: (candidate: PlacementCandidate) => boolean;
+}
+
+/**
+ * Filter run on every placement candidate; the first rule that fails rejects it
+ */
+export type PlacementRule = AltitudeRule | SlopeRule | NoiseRule | MaskRule | DistanceRule | RegionRule | CustomRule;
+
+/**
+ * Instance transform seen by a custom transform modifier; modify it in place.
+ * The object and its values are reused between instances.
+ */
+export interface TransformModifierContext {
+  /** Final position, with heightOffset applied */
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  scale: THREE.Vector3;
+  /** Surface normal, or (0, 1, 0) for systems without one */
+  normal: THREE.Vector3;
+  /** Random sequence seeded from the instance position, shared by the modifiers of one instance */
+  rng: SeededRandom;
+  /** Source variant index */
+  variant: number;
+}
+
+/**
+ * Rotates instances part of the way from upright onto the surface normal.
+ * Meant for systems created with alignToNormal: false.
+ */
+export interface NormalAlignModifier {
+  type: 'alignToNormal';
+  /** 0 keeps instances upright, 1 aligns them fully (default: 1) */
+  amount?: number;
+}
+
+/**
+ * Tilts instances by a random angle in any direction
+ */
+export interface TiltModifier {
+  type: 'tilt';
+  /** Cone half-angle in radians */
+  maxAngle: number;
+}
+
+/**
+ * Multiplies each scale axis by a random value from its range
+ */
+export interface AxisScaleModifier {
+  type: 'scale';
+  /** Default for every axis: [1, 1] */
+  x?: [number, number];
+  y?: [number, number];
+  z?: [number, number];
+}
+
+/**
+ * Multiplies scale by a value mapped from the noise field or density map (0-1) onto a range
+ */
+export interface FieldScaleModifier {
+  type: 'fieldScale';
+  /** 'noise' samples the noiseDistribution field, also when noise placement is disabled */
+  field: 'noise' | 'densityMap';
+  /** Scale multiplier at field values 0 and 1 */
+  range: [number, number];
+}
+
+/**
+ * Rounds the Y rotation to multiples of a step
+ */
+export interface SnapRotationModifier {
+  type: 'snapRotation';
+  /** Step in radians, e.g. Math.PI / 2 */
+  step: number;
+}
+
+/**
+ * Turns instances about Y so their local +Z faces a point
+ */
+export interface FaceTowardModifier {
+  type: 'faceToward';
+  /** Point in the system's local space */
+  target: THREE.Vector3;
+  /** Face away from the point instead (default: false) */
+  away?: boolean;
+}
+
+/**
+ * Modifies transforms with a function.
+ * Functions can't be sent to workers, so a custom modifier keeps generation on the main thread.
+ */
+export interface CustomModifier {
+  type: 'custom';
+  apply: (instance: TransformModifierContext) => void;
+}
+
+/**
+ * Step of the transform pipeline run on every instance after its position is chosen
+ */
+export type TransformModifier =
+  | NormalAlignModifier
+  | TiltModifier
+  | AxisScaleModifier
+  | FieldScaleModifier
+  | SnapRotationModifier
+  | FaceTowardModifier
+  | CustomModifier;
+
+/**
+ * How area systems spread candidate points:
+ * - 'random': independent uniform points, which can clump and overlap
+ * - 'poisson': blue-noise points no closer than minSpacing
+ * - 'jittered-grid': one point per grid cell, jittered but no closer than minSpacing
+ */
+export type PointDistribution = 'random' | 'poisson' | 'jittered-grid';
+
+/**
+ * Polygon on the XZ plane, as [x, z] vertices, with optional holes
+ */
+export interface PolygonZone {
+  polygon: Array<[number, number]>;
+  holes?: Array<Array<[number, number]>>;
+}
+
+/**
+ * Band of a given total width along a curve, e.g. a road (tested on the XZ plane)
+ */
+export interface SplineZone {
+  spline: THREE.Curve<THREE.Vector3>;
+  width: number;
+  /** Straight segments the curve is split into (default: from its length and the width) */
+  divisions?: number;
+}
+
+/**
+ * Shape of an inclusion or exclusion zone. Boxes and spheres are tested in 3D,
+ * polygons and splines on the XZ plane.
+ */
+export type ZoneShape = THREE.Box3 | THREE.Sphere | PolygonZone | SplineZone;
+
+/**
+ * Membership in an OccupancyMap shared with other scatter systems
+ */
+export interface OccupancyConfig {
+  /** Map shared by the systems that must not overlap */
+  map: OccupancyMap;
+  /** Candidates overlapping instances of systems with a higher priority are rejected */
+  priority: number;
+  /** Footprint radius of every instance (default: the widest variant's horizontal bounding radius at max scale) */
+  radius?: number;
 }
 
 /**
  * Base configuration shared by all scatter systems
  */
 export interface BaseScatterConfig {
-  /** Source mesh or group to instance */
-  source: THREE.Mesh | THREE.Group;
+  /** Source mesh or group to instance, or weighted variants picked per placement */
+  source: ScatterSource;
   /** Instances per unit area (or volume for VolumeScatter) */
   density: number;
-  /** Maximum number of instances to create */
+  /** Maximum number of instances to create (initial capacity when capacityGrowth is enabled) */
   maxInstances?: number;
+  /** Opt-in growth of instance capacity past maxInstances */
+  capacityGrowth?: CapacityGrowthConfig;
+  /** Policy when the instance pool runs out (default: 'fail', or 'grow' with capacityGrowth.enabled) */
+  poolExhaustion?: PoolExhaustionPolicy;
   /** Distance from camera where instances are visible */
   visibilityRange: number;
   /** Size of each chunk for spatial partitioning */
   chunkSize?: number;
+  /** Size of the global placement lattice cells; placement doesn't depend on chunkSize (default: 16) */
+  placementCellSize?: number;
+  /** How Heightmap, Mesh and Radial systems spread candidates (default: 'random') */
+  distribution?: PointDistribution;
+  /** Minimum XZ distance between candidates for 'poisson' and 'jittered-grid' (default: the widest variant's bounding diameter at max scale) */
+  minSpacing?: number;
+  /** Extra distance past visibilityRange (and the frustum) before active chunks are released (default: chunkSize / 2) */
+  deactivationMargin?: number;
   /** Min/max scale range for instances */
   scaleRange?: [number, number];
   /** Min/max Y rotation range in radians */
@@ -104,15 +548,62 @@ export interface BaseScatterConfig {
   events?: ScatterEvents;
   /** LOD configuration for distance-based density */
   lod?: LODConfig;
+  /** Merge distant chunks into static meshes */
+  hlod?: HLODConfig;
+  /** Per-instance color jitter */
+  instanceColor?: InstanceColorConfig;
+  /** Custom per-instance attributes */
+  instanceAttributes?: InstanceAttributeConfig[];
+  /** Vertex wind animation (off by default) */
+  wind?: WindConfig;
   /** Density map for texture-based density variation */
   densityMap?: DensityMapConfig;
+  /** Filters run on every candidate, after the system's own placement checks */
+  placementRules?: PlacementRule[];
+  /** Transform steps run in order on every instance, after the system builds its transform */
+  transformModifiers?: TransformModifier[];
+  /** Decoder for image URLs, required where no DOM is available (Node, workers) */
+  imageDecoder?: ImageDecoder;
+  /** Time-sliced chunk population budget */
+  streaming?: ChunkStreamingConfig;
+  /** Cache of generated transforms for hidden chunks */
+  chunkCache?: ChunkCacheConfig;
+  /** Worker pool for off-main-thread chunk generation (falls back to the main thread without one) */
+  workerPool?: ScatterWorkerPool;
+  /** Shared footprints that keep this system's instances out of higher-priority systems' instances */
+  occupancy?: OccupancyConfig;
 }
 
+/**
+ * Weighted source variant, e.g. one tree species of a forest
+ */
+export interface ScatterVariant {
+  /** Stable identifier used by stats and serialization (default: index in the list) */
+  id?: string;
+  /** Object to instance */
+  object: THREE.Mesh | THREE.Group;
+  /** Relative probability of this variant */
+  weight: number;
+  /** Min/max scale range (default: the system's scaleRange) */
+  scaleRange?: [number, number];
+  /** Min/max Y rotation range in radians (default: the system's rotationRange) */
+  rotationRange?: [number, number];
+}
+
+/**
+ * Object(s) to instance: a single mesh or group, or weighted variants
+ */
+export type ScatterSource = THREE.Mesh | THREE.Group | ScatterVariant[];
+
 /**
  * Required version of BaseScatterConfig with all optional fields filled
  */
-export type RequiredScatterConfig = Required<Omit<BaseScatterConfig, 'events'>> & {
+export type RequiredScatterConfig = Required<Omit<BaseScatterConfig, 'events' | 'minSpacing'>> & {
+  minSpacing?: number;
   noiseDistribution: Required<NoiseDistributionConfig>;
+  streaming: Required<ChunkStreamingConfig>;
+  chunkCache: Required<ChunkCacheConfig>;
+  capacityGrowth: Required<CapacityGrowthConfig>;
   events: ScatterEvents;
 };
 
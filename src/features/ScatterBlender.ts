@@ -1,5 +1,7 @@
 import * as THREE from 'three';
 import { BaseScatterSystem } from '../core';
+import { ImageSampler } from '../utils';
+import type { ImageDataSource, ImageDecoder } from '../utils';
 
 /**
  * Layer configuration for biome blending
@@ -19,6 +21,8 @@ export interface ScatterLayer {
 export interface BlenderConfig {
     /** Blend mask texture URL (each channel can represent a different layer) */
     blendMaskUrl?: string;
+    /** Decoder for blend mask URLs, required where no DOM is available */
+    imageDecoder?: ImageDecoder;
     /** How world coordinates map to mask UV */
     worldBounds?: THREE.Box2;
     /** Default update interval in frames (for performance) */
@@ -31,8 +35,8 @@ export interface BlenderConfig {
  */
 export class ScatterBlender extends THREE.Group {
     private scatterLayers: Map<string, ScatterLayer> = new Map();
-    private blendMask: THREE.Texture | null = null;
-    private blendMaskData: Uint8Array | null = null;
+    private blendMask: ImageSampler | null = null;
+    private imageDecoder?: ImageDecoder;
     private worldBounds: THREE.Box2;
     private updateInterval: number;
     private frameCount: number = 0;
@@ -45,14 +49,15 @@ export class ScatterBlender extends THREE.Group {
             new THREE.Vector2(500, 500)
         );
         this.updateInterval = config.updateInterval ?? 1;
+        this.imageDecoder = config.imageDecoder;
     }
 
     /**
      * Initialize the blender and load blend mask
      */
-    async init(blendMaskUrl?: string): Promise<void> {
-        if (blendMaskUrl) {
-            await this.loadBlendMask(blendMaskUrl);
+    async init(blendMask?: ImageDataSource): Promise<void> {
+        if (blendMask) {
+            await this.loadBlendMask(blendMask);
         }
 
         // Initialize all layers
@@ -66,19 +71,10 @@ export class ScatterBlender extends THREE.Group {
     }
 
     /**
-     * Load blend mask texture
+     * Load blend mask from a URL or any other image data source
      */
-    async loadBlendMask(url: string): Promise<void> {
-        const loader = new THREE.TextureLoader();
-        this.blendMask = await loader.loadAsync(url);
-
-        const canvas = document.createElement('canvas');
-        const img = this.blendMask.image as HTMLImageElement;
-        canvas.width = img.width;
-        canvas.height = img.height;
-        const ctx = canvas.getContext('2d')!;
-        ctx.drawImage(img, 0, 0);
-        this.blendMaskData = new Uint8Array(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+    async loadBlendMask(source: ImageDataSource): Promise<void> {
+        this.blendMask = await ImageSampler.load(source, this.imageDecoder);
     }
 
     /**
@@ -124,7 +120,7 @@ export class ScatterBlender extends THREE.Group {
      * Returns RGBA values (0-1) for each channel
      */
     sampleBlendMask(worldX: number, worldZ: number): { r: number; g: number; b: number; a: number } {
-        if (!this.blendMaskData || !this.blendMask) {
+        if (!this.blendMask) {
             return { r: 1, g: 1, b: 1, a: 1 };
         }
 
@@ -135,23 +131,18 @@ export class ScatterBlender extends THREE.Group {
             return { r: 1, g: 1, b: 1, a: 1 };
         }
 
-        const img = this.blendMask.image as HTMLImageElement;
-        const px = Math.floor(u * (img.width - 1));
-        const py = Math.floor((1 - v) * (img.height - 1));
-        const idx = (py * img.width + px) * 4;
-
         return {
-            r: this.blendMaskData[idx] / 255,
-            g: this.blendMaskData[idx + 1] / 255,
-            b: this.blendMaskData[idx + 2] / 255,
-            a: this.blendMaskData[idx + 3] / 255,
+            r: this.blendMask.sample(u, v, 'r'),
+            g: this.blendMask.sample(u, v, 'g'),
+            b: this.blendMask.sample(u, v, 'b'),
+            a: this.blendMask.sample(u, v, 'a'),
         };
     }
 
     /**
-     * Update all layers
+     * Update all layers with one camera or several views
      */
-    update(camera: THREE.Camera): void {
+    update(camera: THREE.Camera | THREE.Camera[]): void {
         if (!this.isInitialized) return;
 
         this.frameCount++;
@@ -204,9 +195,7 @@ export class ScatterBlender extends THREE.Group {
             this.remove(layer.system);
         }
         this.scatterLayers.clear();
-        this.blendMask?.dispose();
         this.blendMask = null;
-        this.blendMaskData = null;
         this.isInitialized = false;
     }
 }
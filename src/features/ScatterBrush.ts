@@ -112,8 +112,8 @@ export class ScatterBrush {
             // Get height if provider exists
             const y = heightProvider ? heightProvider(x, z) : center.y;
 
-            // Acquire instance from pool
-            const instanceId = (this.system as any).instancePool.acquire();
+            // Acquire instance from pool, growing it if the system's policy allows
+            const instanceId = this.system.acquireInstance();
             if (instanceId === null) break;
 
             const position = new THREE.Vector3(x, y + (config.heightOffset ?? 0), z);
@@ -122,6 +122,9 @@ export class ScatterBrush {
             const baseScale = this.rng.range(scaleRange[0], scaleRange[1]);
             const scale = new THREE.Vector3(baseScale, baseScale, baseScale);
 
+            // Pool ids are reused, so regenerate the attributes a chunk may have left behind
+            const matrix = new THREE.Matrix4().compose(position, new THREE.Quaternion().setFromEuler(rotation), scale);
+            this.system.applyInstanceAttributes(instanceId, matrix);
             converter.setInstanceTransform(instanceId, position, rotation, scale);
 
             const painted: PaintedInstance = {
@@ -142,7 +145,6 @@ export class ScatterBrush {
      * Erase instances within radius of the given position
      */
     erase(center: THREE.Vector3): number {
-        const converter = this.system.getConverter();
         let erasedCount = 0;
 
         const toRemove: number[] = [];
@@ -161,8 +163,7 @@ export class ScatterBrush {
         }
 
         for (const instanceId of toRemove) {
-            converter.hideInstance(instanceId);
-            (this.system as any).instancePool.release(instanceId);
+            this.system.releaseInstance(instanceId);
             this.paintedInstances.delete(instanceId);
             erasedCount++;
         }
@@ -174,11 +175,8 @@ export class ScatterBrush {
      * Clear all painted instances
      */
     clearAll(): void {
-        const converter = this.system.getConverter();
-
         for (const [instanceId] of this.paintedInstances.entries()) {
-            converter.hideInstance(instanceId);
-            (this.system as any).instancePool.release(instanceId);
+            this.system.releaseInstance(instanceId);
         }
 
         this.paintedInstances.clear();
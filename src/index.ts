@@ -1,5 +1,5 @@
 // Core
-export { BaseScatterSystem } from './core';
+export { BaseScatterSystem, ChunkGenerator, ChunkGeneratorRegistry, PlacementRuleSet, TransformModifierStack, OccupancyMap, ZoneSet } from './core';
 export type {
   BaseScatterConfig,
   RequiredScatterConfig,
@@ -9,7 +9,52 @@ export type {
   ScatterStats,
   LODLevel,
   LODConfig,
-  DensityMapConfig
+  DensityMapConfig,
+  ChunkStreamingConfig,
+  ChunkCacheConfig,
+  CapacityGrowthConfig,
+  PoolExhaustionPolicy,
+  HLODConfig,
+  InstanceColorConfig,
+  InstanceAttributeConfig,
+  InstanceAttributeContext,
+  WindConfig,
+  PlacementRule,
+  PlacementCandidate,
+  AltitudeRule,
+  SlopeRule,
+  NoiseRule,
+  MaskRule,
+  DistanceRule,
+  RegionRule,
+  CustomRule,
+  TransformModifier,
+  TransformModifierContext,
+  NormalAlignModifier,
+  TiltModifier,
+  AxisScaleModifier,
+  FieldScaleModifier,
+  SnapRotationModifier,
+  FaceTowardModifier,
+  CustomModifier,
+  PointDistribution,
+  OccupancyConfig,
+  ZoneShape,
+  PolygonZone,
+  SplineZone,
+  ScatterVariant,
+  ScatterSource,
+  ChunkTask,
+  GenerationSettings,
+  DensityMapSettings,
+  ChunkGeneratorFactory,
+  ChunkCandidates,
+  VariantSettings,
+  PlacementVariant,
+  PlacementRuleSettings,
+  TransformModifierSettings,
+  TransformModifierFields,
+  OccupancyMember
 } from './core';
 
 // Systems
@@ -41,13 +86,27 @@ export {
   SeededRandom,
   PerlinNoise,
   InstancePool,
-  ScatterSerializer
+  ChunkTransformCache,
+  GeometryBatcher,
+  WindMaterialPatch,
+  WIND_PHASE_ATTRIBUTE,
+  ScatterSerializer,
+  ImageSampler
 } from './utils';
 
 export type {
+  CachedChunk,
   ScatterSaveData,
   SerializedScatterConfig,
-  SerializedInstance
+  SerializedInstance,
+  SerializedScatterVariant,
+  SerializedPlacementRule,
+  SerializedTransformModifier,
+  ScatterVariantObjects,
+  ImageDataSource,
+  ImageDecoder,
+  RawImageData,
+  ImageChannel
 } from './utils';
 
 // Features
@@ -63,6 +122,10 @@ export type {
   PaintedInstance
 } from './features';
 
+// Workers
+export { ScatterWorkerPool, registerScatterWorker } from './workers';
+export type { ScatterWorkerRequest, ScatterWorkerResponse } from './workers';
+
 // Converter
-export { MeshToInstancedMeshConverter } from './converter';
-export type { ITransformationData } from './converter';
+export { MeshToInstancedMeshConverter, PACKED_TRANSFORM_STRIDE } from './converter';
+export type { ITransformationData, IUploadStats } from './converter';
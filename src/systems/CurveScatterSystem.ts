@@ -1,6 +1,5 @@
 import * as THREE from 'three';
-import { BaseScatterSystem, BaseScatterConfig, ChunkData } from '../core';
-import { SeededRandom } from '../utils';
+import { BaseScatterSystem, BaseScatterConfig, ChunkGenerator, ChunkGeneratorRegistry, ChunkTask, GenerationSettings } from '../core';
 
 /**
  * Configuration for curve-based scatter
@@ -20,10 +19,25 @@ export interface CurveScatterConfig extends BaseScatterConfig {
   width?: number;
 }
 
+/**
+ * Generator params for curve placement (points and handles flattened to plain arrays)
+ */
+interface CurveGeneratorParams {
+  /** Packed xyz curve points */
+  points: Float32Array;
+  /** Packed xyz curve tangents */
+  tangents: Float32Array;
+  /** Packed xyzw handle quaternions and xyz handle scales */
+  handles: { quaternions: Float32Array; scales: Float32Array } | null;
+  offsetRange?: [number, number];
+  width?: number;
+}
+
 /**
  * Scatter system distributing instances along a curve
  */
 export class CurveScatterSystem extends BaseScatterSystem {
+  protected readonly generatorType = 'curve';
   private curve: THREE.Curve<THREE.Vector3>;
   private handles?: THREE.Object3D[];
   private curvePoints: THREE.Vector3[] = [];
@@ -67,28 +81,24 @@ export class CurveScatterSystem extends BaseScatterSystem {
   }
 
   protected updateChunks(): void {
-    const camera = this.getCurrentCamera();
-    if (!camera) return;
-    const cameraPos = camera.position;
-    const visRange = this.config.visibilityRange;
+    if (!this.viewerPositions.length) return;
     const chunkSize = this.config.chunkSize;
 
     const activeChunkKeys = new Set<string>();
 
     for (let i = 0; i < this.curvePoints.length; i++) {
       const point = this.curvePoints[i];
-      const distance = point.distanceTo(cameraPos);
-
-      if (distance <= visRange) {
-        const chunkX = Math.floor(point.x / chunkSize) * chunkSize + chunkSize / 2;
-        const chunkZ = Math.floor(point.z / chunkSize) * chunkSize + chunkSize / 2;
-        const key = this.getChunkKey(chunkX, chunkZ);
+      const chunkX = Math.floor(point.x / chunkSize) * chunkSize + chunkSize / 2;
+      const chunkZ = Math.floor(point.z / chunkSize) * chunkSize + chunkSize / 2;
+      const key = this.getChunkKey(chunkX, chunkZ);
+      const distance = this.getNearestViewerDistance3D(point);
 
+      if (distance <= this.getChunkRange(key)) {
         if (!activeChunkKeys.has(key)) {
           activeChunkKeys.add(key);
 
           if (!this.chunks.has(key) || !this.chunks.get(key)!.isActive) {
-            this.activateChunk(chunkX, chunkZ, i);
+            this.activateChunk(chunkX, chunkZ);
           }
         }
       }
@@ -101,53 +111,111 @@ export class CurveScatterSystem extends BaseScatterSystem {
     }
   }
 
-  protected populateChunk(chunk: ChunkData, centerX: number, centerZ: number): void {
-    const halfSize = this.config.chunkSize / 2;
-    const chunkBounds = new THREE.Box3(
-      new THREE.Vector3(centerX - halfSize, -Infinity, centerZ - halfSize),
-      new THREE.Vector3(centerX + halfSize, Infinity, centerZ + halfSize)
+  /**
+   * Index of the first curve point inside the chunk
+   */
+  protected getChunkExtraData(chunkX: number, chunkZ: number): number {
+    const chunkSize = this.config.chunkSize;
+    return this.curvePoints.findIndex(point =>
+      Math.floor(point.x / chunkSize) * chunkSize + chunkSize / 2 === chunkX &&
+      Math.floor(point.z / chunkSize) * chunkSize + chunkSize / 2 === chunkZ
     );
+  }
+
+  protected getGeneratorParams(): CurveGeneratorParams {
+    const handles = this.handles && this.handles.length > 1
+      ? {
+        quaternions: new Float32Array(this.handles.flatMap(h => h.quaternion.toArray())),
+        scales: new Float32Array(this.handles.flatMap(h => h.scale.toArray()))
+      }
+      : null;
+
+    return {
+      points: new Float32Array(this.curvePoints.flatMap(p => p.toArray())),
+      tangents: new Float32Array(this.curveTangents.flatMap(t => t.toArray())),
+      handles,
+      offsetRange: this.offsetRange,
+      width: this.width
+    };
+  }
+
+  /**
+   * Update the curve and regenerate
+   */
+  updateCurve(curve: THREE.Curve<THREE.Vector3>, segmentCount?: number): void {
+    this.curve = curve;
+    if (segmentCount) this.segmentCount = segmentCount;
+    this.generateCurvePoints();
+    this.regenerateAll();
+  }
+}
+
+/**
+ * Curve placement: instances at curve points, spread across the width and oriented by tangent or handles
+ */
+class CurveChunkGenerator extends ChunkGenerator<CurveGeneratorParams> {
+  private curvePoints: THREE.Vector3[] = [];
+  private curveTangents: THREE.Vector3[] = [];
+  private handleQuaternions: THREE.Quaternion[] = [];
+  private handleScales: THREE.Vector3[] = [];
+
+  constructor(settings: GenerationSettings, params: CurveGeneratorParams) {
+    super(settings, params);
+    for (let i = 0; i < params.points.length; i += 3) {
+      this.curvePoints.push(new THREE.Vector3().fromArray(params.points, i));
+      this.curveTangents.push(new THREE.Vector3().fromArray(params.tangents, i));
+    }
+    if (params.handles) {
+      for (let i = 0; i < params.handles.quaternions.length / 4; i++) {
+        this.handleQuaternions.push(new THREE.Quaternion().fromArray(params.handles.quaternions, i * 4));
+        this.handleScales.push(new THREE.Vector3().fromArray(params.handles.scales, i * 3));
+      }
+    }
+  }
 
-    const chunkSeed = ((centerX * 73856093) ^ (centerZ * 19349663) ^ this.config.randomSeed) >>> 0;
-    const rng = new SeededRandom(chunkSeed);
+  generate(task: ChunkTask): Float32Array {
+    const { width, offsetRange } = this.params;
+    const handleCount = this.handleQuaternions.length;
+    const out: number[] = [];
 
     for (let i = 0; i < this.curvePoints.length; i++) {
       const point = this.curvePoints[i];
 
-      if (!chunkBounds.containsPoint(point)) continue;
+      if (!this.isInChunk(task, point.x, point.z)) continue;
 
       const tangent = this.curveTangents[i];
       const t = i / (this.curvePoints.length - 1);
 
-      const distributionsPerPoint = this.width
-        ? Math.max(1, Math.ceil(this.width * this.config.density))
+      const distributionsPerPoint = width
+        ? Math.max(1, Math.ceil(width * this.settings.density))
         : 1;
 
       for (let w = 0; w < distributionsPerPoint; w++) {
-        const instanceId = this.instancePool.acquire();
-        if (instanceId === null) break;
-
+        // Each instance has its own sequence, so placement doesn't depend on chunkSize
+        const rng = this.createHashedRandom(i, w);
         const position = point.clone();
 
         // Apply width distribution
-        if (this.width && distributionsPerPoint > 1) {
+        if (width && distributionsPerPoint > 1) {
           const widthT = w / (distributionsPerPoint - 1);
-          const widthOffset = (widthT - 0.5) * this.width;
+          const widthOffset = (widthT - 0.5) * width;
           const perpendicular = new THREE.Vector3(-tangent.z, 0, tangent.x).normalize();
           position.add(perpendicular.multiplyScalar(widthOffset));
         }
 
         // Apply random offset
-        if (this.offsetRange) {
+        if (offsetRange) {
           const perpendicular = new THREE.Vector3(-tangent.z, 0, tangent.x).normalize();
-          const offset = rng.range(...this.offsetRange);
+          const offset = rng.range(...offsetRange);
           position.add(perpendicular.multiplyScalar(offset));
         }
 
+        if (!this.passesPlacementRules(position)) continue;
+
         // Calculate rotation aligned with tangent
         const rotation = new THREE.Euler();
 
-        if (this.config.alignToNormal) {
+        if (this.settings.alignToNormal) {
           const up = new THREE.Vector3(0, 1, 0);
           const matrix = new THREE.Matrix4().lookAt(
             new THREE.Vector3(0, 0, 0),
@@ -156,50 +224,47 @@ export class CurveScatterSystem extends BaseScatterSystem {
           );
           const quaternion = new THREE.Quaternion().setFromRotationMatrix(matrix);
           rotation.setFromQuaternion(quaternion);
-        } else if (this.handles && this.handles.length > 1) {
-          const handleIndex = Math.floor(t * (this.handles.length - 1));
-          const nextHandleIndex = Math.min(handleIndex + 1, this.handles.length - 1);
-          const handleT = (t * (this.handles.length - 1)) % 1;
+        } else if (handleCount > 1) {
+          const handleIndex = Math.floor(t * (handleCount - 1));
+          const nextHandleIndex = Math.min(handleIndex + 1, handleCount - 1);
+          const handleT = (t * (handleCount - 1)) % 1;
 
           const quaternion = new THREE.Quaternion();
-          quaternion.copy(this.handles[handleIndex].quaternion);
-          quaternion.slerp(this.handles[nextHandleIndex].quaternion, handleT);
+          quaternion.copy(this.handleQuaternions[handleIndex]);
+          quaternion.slerp(this.handleQuaternions[nextHandleIndex], handleT);
           rotation.setFromQuaternion(quaternion);
         }
 
-        rotation.y += rng.range(...this.config.rotationRange);
+        const variant = this.pickVariant(rng);
+        rotation.y += rng.range(...variant.rotationRange);
 
         // Scale
-        let baseScale = rng.range(...this.config.scaleRange);
+        let baseScale = rng.range(...variant.scaleRange);
 
-        if (this.handles && this.handles.length > 1) {
-          const handleIndex = Math.floor(t * (this.handles.length - 1));
-          const nextHandleIndex = Math.min(handleIndex + 1, this.handles.length - 1);
-          const handleT = (t * (this.handles.length - 1)) % 1;
+        if (handleCount > 1) {
+          const handleIndex = Math.floor(t * (handleCount - 1));
+          const nextHandleIndex = Math.min(handleIndex + 1, handleCount - 1);
+          const handleT = (t * (handleCount - 1)) % 1;
 
           const handleScale = new THREE.Vector3();
-          handleScale.copy(this.handles[handleIndex].scale);
-          handleScale.lerp(this.handles[nextHandleIndex].scale, handleT);
+          handleScale.copy(this.handleScales[handleIndex]);
+          handleScale.lerp(this.handleScales[nextHandleIndex], handleT);
           baseScale *= handleScale.x;
         }
 
-        position.y += this.config.heightOffset;
+        position.y += this.settings.heightOffset;
 
         const scale = new THREE.Vector3(baseScale, baseScale, baseScale);
 
-        this.converter.setInstanceTransform(instanceId, position, rotation, scale);
-        chunk.instances.push(instanceId);
+        this.pushTransform(out, position, rotation, scale, variant.index);
       }
     }
-  }
 
-  /**
-   * Update the curve and regenerate
-   */
-  updateCurve(curve: THREE.Curve<THREE.Vector3>, segmentCount?: number): void {
-    this.curve = curve;
-    if (segmentCount) this.segmentCount = segmentCount;
-    this.generateCurvePoints();
-    this.regenerateAll();
+    return new Float32Array(out);
   }
 }
+
+ChunkGeneratorRegistry.register(
+  'curve',
+  (settings, params: CurveGeneratorParams) => new CurveChunkGenerator(settings, params)
+);
@@ -1,6 +1,5 @@
 import * as THREE from 'three';
-import { BaseScatterSystem, BaseScatterConfig, ChunkData } from '../core';
-import { SeededRandom } from '../utils';
+import { BaseScatterSystem, BaseScatterConfig, ChunkGenerator, ChunkGeneratorRegistry, ChunkTask } from '../core';
 
 /**
  * Configuration for grid-based scatter
@@ -18,10 +17,22 @@ export interface GridScatterConfig extends BaseScatterConfig {
   skipPattern?: (x: number, z: number) => boolean;
 }
 
+/**
+ * Generator params for grid placement
+ */
+interface GridGeneratorParams {
+  gridSize: [number, number];
+  cellSize: number;
+  center: [number, number, number];
+  randomOffset: number;
+  skipPattern?: (x: number, z: number) => boolean;
+}
+
 /**
  * Scatter system distributing instances in a regular grid pattern
  */
 export class GridScatterSystem extends BaseScatterSystem {
+  protected readonly generatorType = 'grid';
   private gridSize: THREE.Vector2;
   private cellSize: number;
   private center: THREE.Vector3;
@@ -44,10 +55,7 @@ export class GridScatterSystem extends BaseScatterSystem {
   }
 
   protected updateChunks(): void {
-    const camera = this.getCurrentCamera();
-    if (!camera) return;
-    const cameraPos = camera.position;
-    const visRange = this.config.visibilityRange;
+    if (!this.viewerPositions.length) return;
     const chunkSize = this.config.chunkSize;
 
     const activeChunkKeys = new Set<string>();
@@ -65,19 +73,17 @@ export class GridScatterSystem extends BaseScatterSystem {
         const chunkX = x + chunkSize / 2;
         const chunkZ = z + chunkSize / 2;
 
-        const dx = chunkX - cameraPos.x;
-        const dz = chunkZ - cameraPos.z;
-        const distance = Math.sqrt(dx * dx + dz * dz);
+        const key = this.getChunkKey(chunkX, chunkZ);
+        const distance = this.getNearestViewerDistance(chunkX, chunkZ);
 
-        if (distance <= visRange) {
+        if (distance <= this.getChunkRange(key)) {
           // Frustum culling
           const chunkBounds = new THREE.Box3(
             new THREE.Vector3(chunkX - chunkSize / 2, -100, chunkZ - chunkSize / 2),
             new THREE.Vector3(chunkX + chunkSize / 2, 100, chunkZ + chunkSize / 2)
           );
-          if (!this.isChunkInFrustum(chunkBounds)) continue;
+          if (!this.isChunkInView(key, chunkBounds)) continue;
 
-          const key = this.getChunkKey(chunkX, chunkZ);
           activeChunkKeys.add(key);
 
           if (!this.chunks.has(key) || !this.chunks.get(key)!.isActive) {
@@ -94,58 +100,89 @@ export class GridScatterSystem extends BaseScatterSystem {
     }
   }
 
-  protected populateChunk(chunk: ChunkData, centerX: number, centerZ: number): void {
-    const halfSize = this.config.chunkSize / 2;
-    const chunkBounds = new THREE.Box3(
-      new THREE.Vector3(centerX - halfSize, -Infinity, centerZ - halfSize),
-      new THREE.Vector3(centerX + halfSize, Infinity, centerZ + halfSize)
-    );
+  protected getGeneratorParams(): GridGeneratorParams {
+    return {
+      gridSize: [this.gridSize.x, this.gridSize.y],
+      cellSize: this.cellSize,
+      center: [this.center.x, this.center.y, this.center.z],
+      randomOffset: this.randomOffset,
+      skipPattern: this.skipPattern
+    };
+  }
 
-    const chunkSeed = ((centerX * 73856093) ^ (centerZ * 19349663) ^ this.config.randomSeed) >>> 0;
-    const rng = new SeededRandom(chunkSeed);
+  protected canGenerateInWorker(): boolean {
+    // Skip patterns are functions and cannot be sent to a worker
+    return !this.skipPattern;
+  }
 
-    const halfGridX = (this.gridSize.x * this.cellSize) / 2;
-    const halfGridZ = (this.gridSize.y * this.cellSize) / 2;
-    const gridStartX = this.center.x - halfGridX;
-    const gridStartZ = this.center.z - halfGridZ;
+  /**
+   * Update grid parameters and regenerate
+   */
+  updateGrid(gridSize: THREE.Vector2, cellSize: number): void {
+    this.gridSize = gridSize;
+    this.cellSize = cellSize;
+    this.regenerateAll();
+  }
+}
+
+/**
+ * Grid placement: one jittered instance per cell inside the chunk
+ */
+class GridChunkGenerator extends ChunkGenerator<GridGeneratorParams> {
+  generate(task: ChunkTask): Float32Array {
+    const { centerX, centerZ } = task;
+    const { gridSize, cellSize, center, randomOffset, skipPattern } = this.params;
+    const halfSize = this.settings.chunkSize / 2;
+    const out: number[] = [];
+
+    const halfGridX = (gridSize[0] * cellSize) / 2;
+    const halfGridZ = (gridSize[1] * cellSize) / 2;
+    const gridStartX = center[0] - halfGridX;
+    const gridStartZ = center[2] - halfGridZ;
 
-    for (let gx = 0; gx < this.gridSize.x; gx++) {
-      for (let gz = 0; gz < this.gridSize.y; gz++) {
-        if (this.skipPattern && this.skipPattern(gx, gz)) continue;
+    // Only grid cells whose jittered point can land in this chunk
+    const startX = Math.max(0, Math.floor((centerX - halfSize - gridStartX) / cellSize) - 1);
+    const endX = Math.min(gridSize[0] - 1, Math.ceil((centerX + halfSize - gridStartX) / cellSize));
+    const startZ = Math.max(0, Math.floor((centerZ - halfSize - gridStartZ) / cellSize) - 1);
+    const endZ = Math.min(gridSize[1] - 1, Math.ceil((centerZ + halfSize - gridStartZ) / cellSize));
 
-        const cellCenterX = gridStartX + (gx + 0.5) * this.cellSize;
-        const cellCenterZ = gridStartZ + (gz + 0.5) * this.cellSize;
+    for (let gx = startX; gx <= endX; gx++) {
+      for (let gz = startZ; gz <= endZ; gz++) {
+        if (skipPattern && skipPattern(gx, gz)) continue;
 
-        const offsetX = (rng.next() - 0.5) * this.cellSize * this.randomOffset;
-        const offsetZ = (rng.next() - 0.5) * this.cellSize * this.randomOffset;
+        // Each grid cell has its own sequence, so placement doesn't depend on chunkSize
+        const rng = this.createHashedRandom(gx, gz);
+
+        const cellCenterX = gridStartX + (gx + 0.5) * cellSize;
+        const cellCenterZ = gridStartZ + (gz + 0.5) * cellSize;
+
+        const offsetX = (rng.next() - 0.5) * cellSize * randomOffset;
+        const offsetZ = (rng.next() - 0.5) * cellSize * randomOffset;
 
         const x = cellCenterX + offsetX;
         const z = cellCenterZ + offsetZ;
-        const position = new THREE.Vector3(x, 0, z);
 
-        if (!chunkBounds.containsPoint(position)) continue;
+        if (!this.isInChunk(task, x, z)) continue;
 
-        const instanceId = this.instancePool.acquire();
-        if (instanceId === null) break;
+        const position = new THREE.Vector3(x, 0, z);
+        if (!this.passesPlacementRules(position)) continue;
 
-        const rotation = new THREE.Euler(0, rng.range(...this.config.rotationRange), 0);
-        const baseScale = rng.range(...this.config.scaleRange);
+        const variant = this.pickVariant(rng);
+        const rotation = new THREE.Euler(0, rng.range(...variant.rotationRange), 0);
+        const baseScale = rng.range(...variant.scaleRange);
         const scale = new THREE.Vector3(baseScale, baseScale, baseScale);
 
-        position.y += this.config.heightOffset;
+        position.y += this.settings.heightOffset;
 
-        this.converter.setInstanceTransform(instanceId, position, rotation, scale);
-        chunk.instances.push(instanceId);
+        this.pushTransform(out, position, rotation, scale, variant.index);
       }
     }
-  }
 
-  /**
-   * Update grid parameters and regenerate
-   */
-  updateGrid(gridSize: THREE.Vector2, cellSize: number): void {
-    this.gridSize = gridSize;
-    this.cellSize = cellSize;
-    this.regenerateAll();
+    return new Float32Array(out);
   }
 }
+
+ChunkGeneratorRegistry.register(
+  'grid',
+  (settings, params: GridGeneratorParams) => new GridChunkGenerator(settings, params)
+);
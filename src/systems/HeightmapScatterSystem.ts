@@ -1,6 +1,7 @@
 import * as THREE from 'three';
-import { BaseScatterSystem, BaseScatterConfig, ChunkData } from '../core';
-import { SeededRandom } from '../utils';
+import { BaseScatterSystem, BaseScatterConfig, ChunkGenerator, ChunkGeneratorRegistry, ChunkTask, GenerationSettings } from '../core';
+import { ImageSampler } from '../utils';
+import type { ImageDataSource, RawImageData } from '../utils';
 
 /**
  * Configuration for heightmap-based scatter
@@ -10,22 +11,36 @@ export interface HeightmapScatterConfig extends BaseScatterConfig {
   worldSize: number;
   /** URL to height map image */
   heightMapUrl?: string;
+  /** Height map pixel source used instead of heightMapUrl */
+  heightMap?: ImageDataSource;
   /** Height multiplier */
   heightMapScale?: number;
   /** URL to mask image (white = place, black = no place) */
   maskMapUrl?: string;
+  /** Mask pixel source used instead of maskMapUrl */
+  maskMap?: ImageDataSource;
   /** Maximum slope in degrees for placement */
   slopeLimit?: number;
 }
 
+/**
+ * Generator params for heightmap placement
+ */
+interface HeightmapGeneratorParams {
+  worldSize: number;
+  heightMapScale: number;
+  slopeLimit: number;
+  heightMap: RawImageData | null;
+  maskMap: RawImageData | null;
+}
+
 /**
  * Scatter system using heightmap textures for terrain-based distribution
  */
 export class HeightmapScatterSystem extends BaseScatterSystem {
-  private heightMap: THREE.Texture | null = null;
-  private heightMapData: Uint8Array | null = null;
-  private maskMap: THREE.Texture | null = null;
-  private maskMapData: Uint8Array | null = null;
+  protected readonly generatorType = 'heightmap';
+  private heightMap: ImageSampler | null = null;
+  private maskMap: ImageSampler | null = null;
   private worldSize: number;
   private heightMapScale: number;
   private slopeLimit: number;
@@ -39,54 +54,48 @@ export class HeightmapScatterSystem extends BaseScatterSystem {
   }
 
   protected async initializeDistribution(): Promise<void> {
-    const loader = new THREE.TextureLoader();
     const cfgTyped = this.config as unknown as HeightmapScatterConfig;
+    const heightSource = cfgTyped.heightMap ?? cfgTyped.heightMapUrl;
+    const maskSource = cfgTyped.maskMap ?? cfgTyped.maskMapUrl;
 
-    if (cfgTyped.heightMapUrl) {
-      this.heightMap = await loader.loadAsync(cfgTyped.heightMapUrl);
-      this.heightMapData = await this.extractTextureData(this.heightMap);
+    if (heightSource) {
+      this.heightMap = await ImageSampler.load(heightSource, this.config.imageDecoder);
     }
 
-    if (cfgTyped.maskMapUrl) {
-      this.maskMap = await loader.loadAsync(cfgTyped.maskMapUrl);
-      this.maskMapData = await this.extractTextureData(this.maskMap);
+    if (maskSource) {
+      this.maskMap = await ImageSampler.load(maskSource, this.config.imageDecoder);
     }
   }
 
   protected updateChunks(): void {
-    const camera = this.getCurrentCamera();
-    if (!camera) return;
-    const cameraPos = camera.position;
-    const visRange = this.config.visibilityRange;
+    const extents = this.getViewerExtents(this.config.visibilityRange + this.config.deactivationMargin);
+    if (!extents) return;
     const chunkSize = this.config.chunkSize;
-    const halfWorld = this.worldSize / 2;
 
     const activeChunkKeys = new Set<string>();
 
-    const startX = Math.floor((cameraPos.x - visRange) / chunkSize) * chunkSize;
-    const endX = Math.ceil((cameraPos.x + visRange) / chunkSize) * chunkSize;
-    const startZ = Math.floor((cameraPos.z - visRange) / chunkSize) * chunkSize;
-    const endZ = Math.ceil((cameraPos.z + visRange) / chunkSize) * chunkSize;
+    const startX = Math.floor(extents.minX / chunkSize) * chunkSize;
+    const endX = Math.ceil(extents.maxX / chunkSize) * chunkSize;
+    const startZ = Math.floor(extents.minZ / chunkSize) * chunkSize;
+    const endZ = Math.ceil(extents.maxZ / chunkSize) * chunkSize;
 
     for (let x = startX; x <= endX; x += chunkSize) {
       for (let z = startZ; z <= endZ; z += chunkSize) {
         const chunkX = x + chunkSize / 2;
         const chunkZ = z + chunkSize / 2;
 
-        if (Math.abs(chunkX) > halfWorld || Math.abs(chunkZ) > halfWorld) continue;
+        if (!this.isChunkInDomain(chunkX, chunkZ)) continue;
 
         const key = this.getChunkKey(chunkX, chunkZ);
-        const dx = chunkX - cameraPos.x;
-        const dz = chunkZ - cameraPos.z;
-        const distance = Math.sqrt(dx * dx + dz * dz);
+        const distance = this.getNearestViewerDistance(chunkX, chunkZ);
 
-        if (distance <= visRange) {
+        if (distance <= this.getChunkRange(key)) {
           // Frustum culling - skip chunks not visible
           const chunkBounds = new THREE.Box3(
             new THREE.Vector3(chunkX - chunkSize / 2, -1000, chunkZ - chunkSize / 2),
             new THREE.Vector3(chunkX + chunkSize / 2, 1000, chunkZ + chunkSize / 2)
           );
-          if (!this.isChunkInFrustum(chunkBounds)) continue;
+          if (!this.isChunkInView(key, chunkBounds)) continue;
 
           activeChunkKeys.add(key);
           if (!this.chunks.has(key) || !this.chunks.get(key)!.isActive) {
@@ -103,81 +112,80 @@ export class HeightmapScatterSystem extends BaseScatterSystem {
     }
   }
 
-  protected populateChunk(chunk: ChunkData, centerX: number, centerZ: number): void {
-    const halfSize = this.config.chunkSize / 2;
-    const minX = centerX - halfSize;
-    const maxX = centerX + halfSize;
-    const minZ = centerZ - halfSize;
-    const maxZ = centerZ + halfSize;
-
-    const chunkArea = this.config.chunkSize * this.config.chunkSize;
-    const lodMultiplier = this.getLODDensityMultiplier(centerX, centerZ);
-    const targetCount = Math.floor(chunkArea * this.config.density * lodMultiplier);
-
-    const chunkSeed = ((centerX * 73856093) ^ (centerZ * 19349663) ^ this.config.randomSeed) >>> 0;
-    const rng = new SeededRandom(chunkSeed);
+  /**
+   * Only chunks overlapping the world hold instances
+   */
+  protected isChunkInDomain(chunkX: number, chunkZ: number): boolean {
+    const halfWorld = this.worldSize / 2;
+    const halfChunk = this.config.chunkSize / 2;
+    return Math.abs(chunkX) - halfChunk < halfWorld && Math.abs(chunkZ) - halfChunk < halfWorld;
+  }
 
-    let placed = 0;
-    let attempts = 0;
-    const maxAttempts = targetCount * 3;
+  protected getGeneratorParams(): HeightmapGeneratorParams {
+    return {
+      worldSize: this.worldSize,
+      heightMapScale: this.heightMapScale,
+      slopeLimit: this.slopeLimit,
+      heightMap: this.heightMap?.toRawImageData() ?? null,
+      maskMap: this.maskMap?.toRawImageData() ?? null
+    };
+  }
+}
 
-    while (placed < targetCount && attempts < maxAttempts) {
-      attempts++;
+/**
+ * Heightmap placement: area samples filtered by mask, bounds and slope
+ */
+class HeightmapChunkGenerator extends ChunkGenerator<HeightmapGeneratorParams> {
+  private heightMap: ImageSampler | null;
+  private maskMap: ImageSampler | null;
+
+  constructor(settings: GenerationSettings, params: HeightmapGeneratorParams) {
+    super(settings, params);
+    this.heightMap = params.heightMap ? new ImageSampler(params.heightMap) : null;
+    this.maskMap = params.maskMap ? new ImageSampler(params.maskMap) : null;
+  }
 
-      const x = rng.range(minX, maxX);
-      const z = rng.range(minZ, maxZ);
+  generate(task: ChunkTask): Float32Array {
+    const noise = this.createNoise(task);
+    const out: number[] = [];
 
-      if (!this.shouldPlaceInstance(x, z, chunk.noiseGenerator!)) continue;
-      if (!this.checkMask(x, z)) continue;
+    this.forEachAreaPoint(task, this.settings.density, (x, z, rng) => {
+      if (!this.shouldPlaceInstance(x, z, noise)) return;
+      if (!this.checkMask(x, z)) return;
 
       const height = this.sampleHeight(x, z);
-      if (height === null) continue;
+      if (height === null) return;
 
       const normal = this.sampleNormal(x, z);
       const slope = this.calculateSlope(normal);
-      if (slope > this.slopeLimit) continue;
-
-      const instanceId = this.instancePool.acquire();
-      if (instanceId === null) break;
+      if (slope > this.params.slopeLimit) return;
 
       const position = new THREE.Vector3(x, height, z);
+      if (!this.passesPlacementRules(position, normal)) return;
+
       const transform = this.createInstanceTransform(position, rng, normal);
 
-      this.converter.setInstanceTransform(instanceId, transform.position, transform.rotation, transform.scale);
-      chunk.instances.push(instanceId);
-      placed++;
-    }
-  }
+      this.pushTransform(out, transform.position, transform.rotation, transform.scale, transform.variant, normal);
+    });
 
-  private async extractTextureData(texture: THREE.Texture): Promise<Uint8Array> {
-    const canvas = document.createElement('canvas');
-    const img = texture.image as HTMLImageElement;
-    canvas.width = img.width;
-    canvas.height = img.height;
-    const ctx = canvas.getContext('2d')!;
-    ctx.drawImage(img, 0, 0);
-    return new Uint8Array(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+    return new Float32Array(out);
   }
 
   private worldToUV(worldX: number, worldZ: number): { u: number; v: number } {
-    const halfWorld = this.worldSize / 2;
+    const worldSize = this.params.worldSize;
+    const halfWorld = worldSize / 2;
     return {
-      u: (worldX + halfWorld) / this.worldSize,
-      v: (worldZ + halfWorld) / this.worldSize
+      u: (worldX + halfWorld) / worldSize,
+      v: (worldZ + halfWorld) / worldSize
     };
   }
 
   private sampleHeight(x: number, z: number): number | null {
-    if (!this.heightMapData) return 0;
+    if (!this.heightMap) return 0;
     const { u, v } = this.worldToUV(x, z);
     if (u < 0 || u > 1 || v < 0 || v > 1) return null;
 
-    const img = this.heightMap!.image as HTMLImageElement;
-    const px = Math.floor(u * (img.width - 1));
-    const py = Math.floor((1 - v) * (img.height - 1));
-
-    const heightValue = this.heightMapData[(py * img.width + px) * 4] / 255;
-    return heightValue * this.heightMapScale;
+    return this.heightMap.sample(u, v, 'r') * this.params.heightMapScale;
   }
 
   private sampleNormal(x: number, z: number): THREE.Vector3 {
@@ -197,14 +205,15 @@ export class HeightmapScatterSystem extends BaseScatterSystem {
   }
 
   private checkMask(x: number, z: number): boolean {
-    if (!this.maskMapData) return true;
+    if (!this.maskMap) return true;
     const { u, v } = this.worldToUV(x, z);
     if (u < 0 || u > 1 || v < 0 || v > 1) return false;
 
-    const img = this.maskMap!.image as HTMLImageElement;
-    const px = Math.floor(u * (img.width - 1));
-    const py = Math.floor((1 - v) * (img.height - 1));
-
-    return this.maskMapData[(py * img.width + px) * 4] > 128;
+    return this.maskMap.sample(u, v, 'r') > 128 / 255;
   }
 }
+
+ChunkGeneratorRegistry.register(
+  'heightmap',
+  (settings, params: HeightmapGeneratorParams) => new HeightmapChunkGenerator(settings, params)
+);
@@ -1,8 +1,6 @@
 import * as THREE from 'three';
-// @ts-ignore - MeshSurfaceSampler types may not be available
-import { MeshSurfaceSampler } from 'three/examples/jsm/math/MeshSurfaceSampler.js';
-import { BaseScatterSystem, BaseScatterConfig, ChunkData } from '../core';
-import { SeededRandom } from '../utils';
+import { BaseScatterSystem, BaseScatterConfig, ChunkGenerator, ChunkGeneratorRegistry, ChunkTask, GenerationSettings } from '../core';
+import type { PerlinNoise, SeededRandom } from '../utils';
 
 /**
  * Configuration for mesh surface scatter
@@ -15,10 +13,21 @@ export interface MeshScatterConfig extends BaseScatterConfig {
 }
 
 /**
- * Scatter system using THREE.MeshSurfaceSampler for mesh-based distribution
+ * Generator params for mesh surface placement (plain geometry arrays, so they can cross to a worker)
+ */
+interface MeshGeneratorParams {
+  positions: Float32Array;
+  normals: Float32Array | null;
+  index: Uint16Array | Uint32Array | null;
+  slopeLimit: number;
+}
+
+/**
+ * Scatter system distributing instances over a mesh surface
  */
 export class MeshScatterSystem extends BaseScatterSystem {
-  private meshSampler: MeshSurfaceSampler;
+  protected readonly generatorType = 'mesh';
+  private surfaceMesh: THREE.Mesh;
   private meshBounds: THREE.Box3;
   private slopeLimit: number;
 
@@ -26,9 +35,7 @@ export class MeshScatterSystem extends BaseScatterSystem {
     super(config);
     this.slopeLimit = config.slopeLimit ?? 45;
 
-    this.meshSampler = new MeshSurfaceSampler(config.surfaceMesh)
-      .setWeightAttribute(null)
-      .build();
+    this.surfaceMesh = config.surfaceMesh;
     this.meshBounds = new THREE.Box3().setFromObject(config.surfaceMesh);
 
     this.init();
@@ -39,10 +46,7 @@ export class MeshScatterSystem extends BaseScatterSystem {
   }
 
   protected updateChunks(): void {
-    const camera = this.getCurrentCamera();
-    if (!camera) return;
-    const cameraPos = camera.position;
-    const visRange = this.config.visibilityRange;
+    if (!this.viewerPositions.length) return;
     const chunkSize = this.config.chunkSize;
 
     const activeChunkKeys = new Set<string>();
@@ -57,19 +61,17 @@ export class MeshScatterSystem extends BaseScatterSystem {
         const chunkX = x + chunkSize / 2;
         const chunkZ = z + chunkSize / 2;
 
-        const dx = chunkX - cameraPos.x;
-        const dz = chunkZ - cameraPos.z;
-        const distance = Math.sqrt(dx * dx + dz * dz);
+        const key = this.getChunkKey(chunkX, chunkZ);
+        const distance = this.getNearestViewerDistance(chunkX, chunkZ);
 
-        if (distance <= visRange) {
+        if (distance <= this.getChunkRange(key)) {
           // Frustum culling
           const chunkBounds = new THREE.Box3(
             new THREE.Vector3(chunkX - chunkSize / 2, this.meshBounds.min.y, chunkZ - chunkSize / 2),
             new THREE.Vector3(chunkX + chunkSize / 2, this.meshBounds.max.y, chunkZ + chunkSize / 2)
           );
-          if (!this.isChunkInFrustum(chunkBounds)) continue;
+          if (!this.isChunkInView(key, chunkBounds)) continue;
 
-          const key = this.getChunkKey(chunkX, chunkZ);
           activeChunkKeys.add(key);
 
           if (!this.chunks.has(key) || !this.chunks.get(key)!.isActive) {
@@ -86,57 +88,281 @@ export class MeshScatterSystem extends BaseScatterSystem {
     }
   }
 
-  protected populateChunk(chunk: ChunkData, centerX: number, centerZ: number): void {
-    const halfSize = this.config.chunkSize / 2;
-    const chunkBounds = new THREE.Box3(
-      new THREE.Vector3(centerX - halfSize, -Infinity, centerZ - halfSize),
-      new THREE.Vector3(centerX + halfSize, Infinity, centerZ + halfSize)
-    );
+  protected getGeneratorParams(): MeshGeneratorParams {
+    const geometry = this.surfaceMesh.geometry;
+    const index = geometry.getIndex();
+
+    return {
+      positions: toFloat32Array(geometry.getAttribute('position')),
+      normals: geometry.getAttribute('normal') ? toFloat32Array(geometry.getAttribute('normal')) : null,
+      index: index ? (index.array as Uint16Array | Uint32Array) : null,
+      slopeLimit: this.slopeLimit
+    };
+  }
+
+  /**
+   * Update the surface mesh and regenerate
+   */
+  updateMesh(mesh: THREE.Mesh): void {
+    this.surfaceMesh = mesh;
+    this.meshBounds = new THREE.Box3().setFromObject(mesh);
+    this.regenerateAll();
+  }
+}
+
+/**
+ * Copy a (possibly interleaved) vec3 attribute into a plain Float32Array
+ */
+function toFloat32Array(attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): Float32Array {
+  if (attribute instanceof THREE.BufferAttribute && attribute.array instanceof Float32Array) {
+    return attribute.array;
+  }
+  const array = new Float32Array(attribute.count * 3);
+  for (let i = 0; i < attribute.count; i++) {
+    array[i * 3] = attribute.getX(i);
+    array[i * 3 + 1] = attribute.getY(i);
+    array[i * 3 + 2] = attribute.getZ(i);
+  }
+  return array;
+}
+
+/**
+ * Triangle with its XZ footprint precomputed
+ */
+interface SurfaceTriangle {
+  a: THREE.Vector3;
+  b: THREE.Vector3;
+  c: THREE.Vector3;
+  /** Vertex normals, or the face normal repeated */
+  na: THREE.Vector3;
+  nb: THREE.Vector3;
+  nc: THREE.Vector3;
+  /** Surface area per unit of XZ area (1 / |normal.y|) */
+  areaRatio: number;
+}
+
+/**
+ * Clip a convex XZ polygon (flat [x0, z0, x1, z1, ...]) to an axis-aligned rectangle
+ */
+function clipToRect(polygon: number[], minX: number, minZ: number, maxX: number, maxZ: number): number[] {
+  const edges: Array<[number, number, number]> = [[0, minX, 1], [0, maxX, -1], [1, minZ, 1], [1, maxZ, -1]];
+  let input = polygon;
+
+  for (const [axis, limit, side] of edges) {
+    const output: number[] = [];
+    const count = input.length / 2;
+
+    for (let i = 0; i < count; i++) {
+      const j = (i + 1) % count;
+      const pi = input[i * 2 + axis];
+      const pj = input[j * 2 + axis];
+      const insideI = (pi - limit) * side >= 0;
+      const insideJ = (pj - limit) * side >= 0;
 
-    const chunkArea = this.config.chunkSize * this.config.chunkSize;
-    const lodMultiplier = this.getLODDensityMultiplier(centerX, centerZ);
-    const targetCount = Math.floor(chunkArea * this.config.density * lodMultiplier);
+      if (insideI) output.push(input[i * 2], input[i * 2 + 1]);
+      if (insideI !== insideJ) {
+        const t = (limit - pi) / (pj - pi);
+        output.push(
+          input[i * 2] + (input[j * 2] - input[i * 2]) * t,
+          input[i * 2 + 1] + (input[j * 2 + 1] - input[i * 2 + 1]) * t
+        );
+      }
+    }
 
-    const chunkSeed = ((centerX * 73856093) ^ (centerZ * 19349663) ^ this.config.randomSeed) >>> 0;
-    const rng = new SeededRandom(chunkSeed);
+    input = output;
+    if (input.length < 6) return [];
+  }
+
+  return input;
+}
 
-    let placed = 0;
-    let attempts = 0;
-    const maxAttempts = targetCount * 5;
+/**
+ * Mesh surface placement: each lattice cell samples the triangle pieces it covers,
+ * so instances are spread by surface area and don't depend on chunkSize
+ */
+class MeshChunkGenerator extends ChunkGenerator<MeshGeneratorParams> {
+  private triangles: SurfaceTriangle[] = [];
+  /** Triangle indices overlapping each lattice cell, keyed by "cellX_cellZ" */
+  private cellTriangles: Map<string, number[]> = new Map();
+  private _weights: THREE.Vector3 = new THREE.Vector3();
+  private _normal: THREE.Vector3 = new THREE.Vector3();
 
-    const position = new THREE.Vector3();
-    const normal = new THREE.Vector3();
+  constructor(settings: GenerationSettings, params: MeshGeneratorParams) {
+    super(settings, params);
 
-    while (placed < targetCount && attempts < maxAttempts) {
-      attempts++;
+    const { positions, normals, index } = params;
+    const vertexCount = index ? index.length : positions.length / 3;
+    const cellSize = settings.cellSize;
+    const faceNormal = new THREE.Vector3();
 
-      this.meshSampler.sample(position, normal);
+    for (let i = 0; i + 2 < vertexCount; i += 3) {
+      const ia = index ? index[i] : i;
+      const ib = index ? index[i + 1] : i + 1;
+      const ic = index ? index[i + 2] : i + 2;
 
-      if (!chunkBounds.containsPoint(position)) continue;
-      if (!this.shouldPlaceInstance(position.x, position.z, chunk.noiseGenerator!)) continue;
+      const a = new THREE.Vector3().fromArray(positions, ia * 3);
+      const b = new THREE.Vector3().fromArray(positions, ib * 3);
+      const c = new THREE.Vector3().fromArray(positions, ic * 3);
+      THREE.Triangle.getNormal(a, b, c, faceNormal);
 
-      const slope = THREE.MathUtils.radToDeg(Math.acos(normal.y));
-      if (slope > this.slopeLimit) continue;
+      // Vertical faces have no XZ footprint
+      if (Math.abs(faceNormal.y) < 1e-6) continue;
 
-      const instanceId = this.instancePool.acquire();
-      if (instanceId === null) break;
+      const triangle: SurfaceTriangle = {
+        a, b, c,
+        na: normals ? new THREE.Vector3().fromArray(normals, ia * 3) : faceNormal.clone(),
+        nb: normals ? new THREE.Vector3().fromArray(normals, ib * 3) : faceNormal.clone(),
+        nc: normals ? new THREE.Vector3().fromArray(normals, ic * 3) : faceNormal.clone(),
+        areaRatio: 1 / Math.abs(faceNormal.y)
+      };
+      const triangleIndex = this.triangles.push(triangle) - 1;
 
-      const transform = this.createInstanceTransform(position.clone(), rng, normal);
+      const startX = Math.floor(Math.min(a.x, b.x, c.x) / cellSize);
+      const endX = Math.floor(Math.max(a.x, b.x, c.x) / cellSize);
+      const startZ = Math.floor(Math.min(a.z, b.z, c.z) / cellSize);
+      const endZ = Math.floor(Math.max(a.z, b.z, c.z) / cellSize);
 
-      this.converter.setInstanceTransform(instanceId, transform.position, transform.rotation, transform.scale);
-      chunk.instances.push(instanceId);
-      placed++;
+      for (let cx = startX; cx <= endX; cx++) {
+        for (let cz = startZ; cz <= endZ; cz++) {
+          const key = `${cx}_${cz}`;
+          let bucket = this.cellTriangles.get(key);
+          if (!bucket) {
+            bucket = [];
+            this.cellTriangles.set(key, bucket);
+          }
+          bucket.push(triangleIndex);
+        }
+      }
     }
   }
 
+  generate(task: ChunkTask): Float32Array {
+    const noise = this.createNoise(task);
+    const out: number[] = [];
+
+    if (this.settings.distribution !== 'random') {
+      this.generateSpaced(task, noise, out);
+      return new Float32Array(out);
+    }
+
+    this.forEachCell(task, (minX, minZ, cellSize, rng) => {
+      const bucket = this.cellTriangles.get(`${Math.round(minX / cellSize)}_${Math.round(minZ / cellSize)}`);
+      if (!bucket) return;
+
+      for (const triangleIndex of bucket) {
+        const triangle = this.triangles[triangleIndex];
+        const { a, b, c } = triangle;
+        const piece = clipToRect([a.x, a.z, b.x, b.z, c.x, c.z], minX, minZ, minX + cellSize, minZ + cellSize);
+        if (piece.length === 0) continue;
+
+        // Fan-triangulate the clipped piece and weight its parts by area
+        const fanAreas: number[] = [];
+        let pieceArea = 0;
+        for (let k = 2; k < piece.length / 2; k++) {
+          const area = Math.abs(
+            (piece[k * 2 - 2] - piece[0]) * (piece[k * 2 + 1] - piece[1]) -
+            (piece[k * 2] - piece[0]) * (piece[k * 2 - 1] - piece[1])
+          ) / 2;
+          fanAreas.push(area);
+          pieceArea += area;
+        }
+
+        const count = this.getCandidateCount(pieceArea * triangle.areaRatio * this.settings.density, rng);
+
+        for (let i = 0; i < count; i++) {
+          let pick = rng.next() * pieceArea;
+          let k = 0;
+          while (k < fanAreas.length - 1 && pick > fanAreas[k]) {
+            pick -= fanAreas[k];
+            k++;
+          }
+
+          // Uniform point in fan triangle (p0, p[k + 1], p[k + 2])
+          let r1 = rng.next();
+          let r2 = rng.next();
+          if (r1 + r2 > 1) {
+            r1 = 1 - r1;
+            r2 = 1 - r2;
+          }
+          const x = piece[0] + (piece[k * 2 + 2] - piece[0]) * r1 + (piece[k * 2 + 4] - piece[0]) * r2;
+          const z = piece[1] + (piece[k * 2 + 3] - piece[1]) * r1 + (piece[k * 2 + 5] - piece[1]) * r2;
+
+          this.placeOnTriangle(triangle, x, z, this.getWeights(triangle, x, z), rng, noise, out);
+        }
+      }
+    });
+
+    return new Float32Array(out);
+  }
+
   /**
-   * Update the surface mesh and regenerate
+   * Spaced placement: XZ points from forEachAreaPoint() lifted onto every triangle under them,
+   * so density counts per unit of XZ footprint rather than surface area
    */
-  updateMesh(mesh: THREE.Mesh): void {
-    this.meshSampler = new MeshSurfaceSampler(mesh)
-      .setWeightAttribute(null)
-      .build();
-    this.meshBounds = new THREE.Box3().setFromObject(mesh);
-    this.regenerateAll();
+  private generateSpaced(task: ChunkTask, noise: PerlinNoise, out: number[]): void {
+    const cellSize = this.settings.cellSize;
+
+    this.forEachAreaPoint(task, this.settings.density, (x, z, rng) => {
+      const bucket = this.cellTriangles.get(`${Math.floor(x / cellSize)}_${Math.floor(z / cellSize)}`);
+      if (!bucket) return;
+
+      for (const triangleIndex of bucket) {
+        const triangle = this.triangles[triangleIndex];
+        const weights = this.getWeights(triangle, x, z);
+        if (weights.x < 0 || weights.y < 0 || weights.z < 0) continue;
+
+        this.placeOnTriangle(triangle, x, z, weights, rng, noise, out);
+      }
+    });
+  }
+
+  /**
+   * Barycentric weights of an XZ point in a triangle's footprint
+   */
+  private getWeights(triangle: SurfaceTriangle, x: number, z: number): THREE.Vector3 {
+    const { a, b, c } = triangle;
+    const det = (b.z - c.z) * (a.x - c.x) + (c.x - b.x) * (a.z - c.z);
+    const wa = ((b.z - c.z) * (x - c.x) + (c.x - b.x) * (z - c.z)) / det;
+    const wb = ((c.z - a.z) * (x - c.x) + (a.x - c.x) * (z - c.z)) / det;
+    return this._weights.set(wa, wb, 1 - wa - wb);
+  }
+
+  /**
+   * Lift a point back onto a triangle and place an instance there if it passes the filters
+   */
+  private placeOnTriangle(
+    triangle: SurfaceTriangle,
+    x: number,
+    z: number,
+    weights: THREE.Vector3,
+    rng: SeededRandom,
+    noise: PerlinNoise,
+    out: number[]
+  ): void {
+    const { a, b, c } = triangle;
+    const { x: wa, y: wb, z: wc } = weights;
+    const y = a.y * wa + b.y * wb + c.y * wc;
+    const normal = this._normal.set(0, 0, 0)
+      .addScaledVector(triangle.na, wa)
+      .addScaledVector(triangle.nb, wb)
+      .addScaledVector(triangle.nc, wc)
+      .normalize();
+
+    if (!this.shouldPlaceInstance(x, z, noise)) return;
+
+    const slope = THREE.MathUtils.radToDeg(Math.acos(normal.y));
+    if (slope > this.params.slopeLimit) return;
+
+    const position = new THREE.Vector3(x, y, z);
+    if (!this.passesPlacementRules(position, normal)) return;
+
+    const transform = this.createInstanceTransform(position, rng, normal);
+
+    this.pushTransform(out, transform.position, transform.rotation, transform.scale, transform.variant, normal);
   }
 }
+
+ChunkGeneratorRegistry.register(
+  'mesh',
+  (settings, params: MeshGeneratorParams) => new MeshChunkGenerator(settings, params)
+);
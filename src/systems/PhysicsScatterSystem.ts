@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { BaseScatterSystem, BaseScatterConfig, ChunkData } from '../core';
+import { BaseScatterSystem, BaseScatterConfig, ChunkGenerator, ChunkGeneratorRegistry, ChunkTask } from '../core';
 import { SeededRandom } from '../utils';
 
 /**
@@ -37,10 +37,18 @@ export interface PhysicsBody {
   friction: number;
 }
 
+/**
+ * Generator params for physics placement (settled bodies grouped by chunk key)
+ */
+interface PhysicsGeneratorParams {
+  simulatedPositions: Map<string, Array<{ position: THREE.Vector3; rotation: THREE.Quaternion }>>;
+}
+
 /**
  * Scatter system using physics simulation for natural placement
  */
 export class PhysicsScatterSystem extends BaseScatterSystem {
+  protected readonly generatorType = 'physics';
   private dropHeight: number;
   private dropBounds: THREE.Box3;
   private simulationSteps: number;
@@ -222,10 +230,7 @@ export class PhysicsScatterSystem extends BaseScatterSystem {
   }
 
   protected updateChunks(): void {
-    const camera = this.getCurrentCamera();
-    if (!camera) return;
-    const cameraPos = camera.position;
-    const visRange = this.config.visibilityRange;
+    if (!this.viewerPositions.length) return;
     const chunkSize = this.config.chunkSize;
 
     const activeChunkKeys = new Set<string>();
@@ -240,19 +245,17 @@ export class PhysicsScatterSystem extends BaseScatterSystem {
         const chunkX = x + chunkSize / 2;
         const chunkZ = z + chunkSize / 2;
 
-        const dx = chunkX - cameraPos.x;
-        const dz = chunkZ - cameraPos.z;
-        const distance = Math.sqrt(dx * dx + dz * dz);
+        const key = this.getChunkKey(chunkX, chunkZ);
+        const distance = this.getNearestViewerDistance(chunkX, chunkZ);
 
-        if (distance <= visRange) {
+        if (distance <= this.getChunkRange(key)) {
           // Frustum culling
           const chunkBounds = new THREE.Box3(
             new THREE.Vector3(chunkX - chunkSize / 2, this.dropBounds.min.y, chunkZ - chunkSize / 2),
             new THREE.Vector3(chunkX + chunkSize / 2, this.dropHeight, chunkZ + chunkSize / 2)
           );
-          if (!this.isChunkInFrustum(chunkBounds)) continue;
+          if (!this.isChunkInView(key, chunkBounds)) continue;
 
-          const key = this.getChunkKey(chunkX, chunkZ);
           activeChunkKeys.add(key);
 
           if (!this.chunks.has(key) || !this.chunks.get(key)!.isActive) {
@@ -269,39 +272,61 @@ export class PhysicsScatterSystem extends BaseScatterSystem {
     }
   }
 
-  protected populateChunk(chunk: ChunkData, centerX: number, centerZ: number): void {
-    const key = this.getChunkKey(centerX, centerZ);
-    const instances = this.simulatedPositions.get(key);
+  protected getGeneratorParams(): PhysicsGeneratorParams {
+    return { simulatedPositions: this.simulatedPositions };
+  }
 
-    if (!instances) return;
+  protected canGenerateInWorker(): boolean {
+    // Settled bodies live on the main thread
+    return false;
+  }
 
-    const chunkSeed = ((centerX * 73856093) ^ (centerZ * 19349663) ^ this.config.randomSeed) >>> 0;
-    const rng = new SeededRandom(chunkSeed);
+  /**
+   * Re-run the physics simulation
+   */
+  resimulate(): void {
+    this.simulatedPositions.clear();
+    this.isSimulated = false;
+    this.regenerateAll();
+    this.runPhysicsSimulation();
+  }
+}
 
-    for (const instance of instances) {
-      const instanceId = this.instancePool.acquire();
-      if (instanceId === null) break;
+/**
+ * Physics placement: emits the settled bodies that fall inside a chunk
+ */
+class PhysicsChunkGenerator extends ChunkGenerator<PhysicsGeneratorParams> {
+  generate(task: ChunkTask): Float32Array {
+    const instances = this.params.simulatedPositions.get(task.key);
+    if (!instances) return new Float32Array(0);
 
+    const out: number[] = [];
+
+    for (const instance of instances) {
+      // Seeded by the settled position, so placement doesn't depend on chunkSize
+      const rng = this.createHashedRandom(
+        Math.round(instance.position.x * 1000),
+        Math.round(instance.position.z * 1000),
+        Math.round(instance.position.y * 1000)
+      );
       const position = instance.position.clone();
-      position.y += this.config.heightOffset;
+      if (!this.passesPlacementRules(position)) continue;
+      position.y += this.settings.heightOffset;
 
       const rotation = new THREE.Euler().setFromQuaternion(instance.rotation);
 
-      const baseScale = rng.range(...this.config.scaleRange);
+      const variant = this.pickVariant(rng);
+      const baseScale = rng.range(...variant.scaleRange);
       const scale = new THREE.Vector3(baseScale, baseScale, baseScale);
 
-      this.converter.setInstanceTransform(instanceId, position, rotation, scale);
-      chunk.instances.push(instanceId);
+      this.pushTransform(out, position, rotation, scale, variant.index);
     }
-  }
 
-  /**
-   * Re-run the physics simulation
-   */
-  resimulate(): void {
-    this.simulatedPositions.clear();
-    this.isSimulated = false;
-    this.regenerateAll();
-    this.runPhysicsSimulation();
+    return new Float32Array(out);
   }
 }
+
+ChunkGeneratorRegistry.register(
+  'physics',
+  (settings, params: PhysicsGeneratorParams) => new PhysicsChunkGenerator(settings, params)
+);
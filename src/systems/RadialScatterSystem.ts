@@ -1,6 +1,5 @@
 import * as THREE from 'three';
-import { BaseScatterSystem, BaseScatterConfig, ChunkData } from '../core';
-import { SeededRandom } from '../utils';
+import { BaseScatterSystem, BaseScatterConfig, ChunkGenerator, ChunkGeneratorRegistry, ChunkTask } from '../core';
 
 /**
  * Configuration for radial scatter
@@ -22,10 +21,24 @@ export interface RadialScatterConfig extends BaseScatterConfig {
   radialDensityFalloff?: number;
 }
 
+/**
+ * Generator params for radial placement
+ */
+interface RadialGeneratorParams {
+  center: [number, number, number];
+  innerRadius: number;
+  outerRadius: number;
+  angleStart: number;
+  angleEnd: number;
+  heightRange: [number, number];
+  radialDensityFalloff: number;
+}
+
 /**
  * Scatter system distributing instances in a radial/ring pattern
  */
 export class RadialScatterSystem extends BaseScatterSystem {
+  protected readonly generatorType = 'radial';
   private center: THREE.Vector3;
   private innerRadius: number;
   private outerRadius: number;
@@ -52,10 +65,7 @@ export class RadialScatterSystem extends BaseScatterSystem {
   }
 
   protected updateChunks(): void {
-    const camera = this.getCurrentCamera();
-    if (!camera) return;
-    const cameraPos = camera.position;
-    const visRange = this.config.visibilityRange;
+    if (!this.viewerPositions.length) return;
     const chunkSize = this.config.chunkSize;
 
     const activeChunkKeys = new Set<string>();
@@ -70,19 +80,17 @@ export class RadialScatterSystem extends BaseScatterSystem {
         const chunkX = x + chunkSize / 2;
         const chunkZ = z + chunkSize / 2;
 
-        const dx = chunkX - cameraPos.x;
-        const dz = chunkZ - cameraPos.z;
-        const distance = Math.sqrt(dx * dx + dz * dz);
+        const key = this.getChunkKey(chunkX, chunkZ);
+        const distance = this.getNearestViewerDistance(chunkX, chunkZ);
 
-        if (distance <= visRange) {
+        if (distance <= this.getChunkRange(key)) {
           // Frustum culling
           const chunkBounds = new THREE.Box3(
             new THREE.Vector3(chunkX - chunkSize / 2, this.heightRange[0], chunkZ - chunkSize / 2),
             new THREE.Vector3(chunkX + chunkSize / 2, this.heightRange[1], chunkZ + chunkSize / 2)
           );
-          if (!this.isChunkInFrustum(chunkBounds)) continue;
+          if (!this.isChunkInView(key, chunkBounds)) continue;
 
-          const key = this.getChunkKey(chunkX, chunkZ);
           activeChunkKeys.add(key);
 
           if (!this.chunks.has(key) || !this.chunks.get(key)!.isActive) {
@@ -99,73 +107,98 @@ export class RadialScatterSystem extends BaseScatterSystem {
     }
   }
 
-  protected populateChunk(chunk: ChunkData, centerX: number, centerZ: number): void {
-    const halfSize = this.config.chunkSize / 2;
-    const chunkBounds = new THREE.Box3(
-      new THREE.Vector3(centerX - halfSize, this.heightRange[0], centerZ - halfSize),
-      new THREE.Vector3(centerX + halfSize, this.heightRange[1], centerZ + halfSize)
-    );
-
-    const chunkArea = this.config.chunkSize * this.config.chunkSize;
-    const lodMultiplier = this.getLODDensityMultiplier(centerX, centerZ);
-    const targetCount = Math.floor(chunkArea * this.config.density * lodMultiplier);
-
-    const chunkSeed = ((centerX * 73856093) ^ (centerZ * 19349663) ^ this.config.randomSeed) >>> 0;
-    const rng = new SeededRandom(chunkSeed);
-
-    let placed = 0;
-    let attempts = 0;
-    const maxAttempts = targetCount * 5;
-
-    while (placed < targetCount && attempts < maxAttempts) {
-      attempts++;
+  protected getGeneratorParams(): RadialGeneratorParams {
+    return {
+      center: [this.center.x, this.center.y, this.center.z],
+      innerRadius: this.innerRadius,
+      outerRadius: this.outerRadius,
+      angleStart: this.angleStart,
+      angleEnd: this.angleEnd,
+      heightRange: this.heightRange,
+      radialDensityFalloff: this.radialDensityFalloff
+    };
+  }
 
-      const angle = rng.range(this.angleStart, this.angleEnd);
+  /**
+   * Update the radial bounds and regenerate
+   */
+  updateRadialBounds(innerRadius: number, outerRadius: number): void {
+    this.innerRadius = innerRadius;
+    this.outerRadius = outerRadius;
+    this.regenerateAll();
+  }
+}
 
-      let radius: number;
-      if (this.radialDensityFalloff > 0) {
-        const t = Math.pow(rng.next(), 1 / (1 + this.radialDensityFalloff));
-        radius = this.innerRadius + t * (this.outerRadius - this.innerRadius);
-      } else {
-        radius = rng.range(this.innerRadius, this.outerRadius);
+/**
+ * Radial placement: polar samples within the ring, facing away from the center
+ */
+class RadialChunkGenerator extends ChunkGenerator<RadialGeneratorParams> {
+  generate(task: ChunkTask): Float32Array {
+    const { center, innerRadius, outerRadius, angleStart, angleEnd, heightRange, radialDensityFalloff } = this.params;
+    const noise = this.createNoise(task);
+    const out: number[] = [];
+
+    // Cells outside the outer circle hold no candidates
+    const outsideRing = (minX: number, minZ: number, cellSize: number): boolean => {
+      const nearestX = Math.max(minX, Math.min(center[0], minX + cellSize));
+      const nearestZ = Math.max(minZ, Math.min(center[2], minZ + cellSize));
+      return Math.hypot(nearestX - center[0], nearestZ - center[2]) > outerRadius;
+    };
+
+    this.forEachAreaPoint(task, this.settings.density, (x, z, rng) => {
+      const y = rng.range(heightRange[0], heightRange[1]);
+
+      const dx = x - center[0];
+      const dz = z - center[2];
+      const radius = Math.sqrt(dx * dx + dz * dz);
+      if (radius < innerRadius || radius > outerRadius) return;
+      if (!this.isInSector(Math.atan2(dz, dx))) return;
+
+      // Thin candidates towards the center: density grows with (r - inner)^falloff
+      if (radialDensityFalloff > 0) {
+        const t = (radius - innerRadius) / (outerRadius - innerRadius || 1);
+        if (rng.next() > Math.pow(t, radialDensityFalloff)) return;
       }
 
-      const x = this.center.x + radius * Math.cos(angle);
-      const z = this.center.z + radius * Math.sin(angle);
-      const y = rng.range(this.heightRange[0], this.heightRange[1]);
+      if (!this.shouldPlaceInstance(x, z, noise)) return;
 
       const position = new THREE.Vector3(x, y, z);
+      if (!this.passesPlacementRules(position)) return;
 
-      if (!chunkBounds.containsPoint(position)) continue;
-      if (!this.shouldPlaceInstance(x, z, chunk.noiseGenerator!)) continue;
-
-      const instanceId = this.instancePool.acquire();
-      if (instanceId === null) break;
-
-      const directionFromCenter = new THREE.Vector3(x - this.center.x, 0, z - this.center.z).normalize();
+      const directionFromCenter = new THREE.Vector3(dx, 0, dz).normalize();
+      const variant = this.pickVariant(rng);
       const rotation = new THREE.Euler(
         0,
-        Math.atan2(directionFromCenter.x, directionFromCenter.z) + rng.range(...this.config.rotationRange),
+        Math.atan2(directionFromCenter.x, directionFromCenter.z) + rng.range(...variant.rotationRange),
         0
       );
 
-      const baseScale = rng.range(...this.config.scaleRange);
+      const baseScale = rng.range(...variant.scaleRange);
       const scale = new THREE.Vector3(baseScale, baseScale, baseScale);
 
-      position.y += this.config.heightOffset;
+      position.y += this.settings.heightOffset;
 
-      this.converter.setInstanceTransform(instanceId, position, rotation, scale);
-      chunk.instances.push(instanceId);
-      placed++;
-    }
+      this.pushTransform(out, position, rotation, scale, variant.index);
+    }, outsideRing);
+
+    return new Float32Array(out);
   }
 
   /**
-   * Update the radial bounds and regenerate
+   * Whether an angle lies between angleStart and angleEnd (wrapping at 2π)
    */
-  updateRadialBounds(innerRadius: number, outerRadius: number): void {
-    this.innerRadius = innerRadius;
-    this.outerRadius = outerRadius;
-    this.regenerateAll();
+  private isInSector(angle: number): boolean {
+    const { angleStart, angleEnd } = this.params;
+    const span = angleEnd - angleStart;
+    if (span >= Math.PI * 2) return true;
+
+    const twoPi = Math.PI * 2;
+    const offset = ((angle - angleStart) % twoPi + twoPi) % twoPi;
+    return offset <= span;
   }
 }
+
+ChunkGeneratorRegistry.register(
+  'radial',
+  (settings, params: RadialGeneratorParams) => new RadialChunkGenerator(settings, params)
+);
@@ -1,6 +1,5 @@
 import * as THREE from 'three';
-import { BaseScatterSystem, BaseScatterConfig, ChunkData } from '../core';
-import { SeededRandom } from '../utils';
+import { BaseScatterSystem, BaseScatterConfig, ChunkGenerator, ChunkGeneratorRegistry, ChunkTask, GenerationSettings } from '../core';
 
 /**
  * Configuration for spline-based scatter
@@ -30,10 +29,26 @@ export interface SplineScatterConfig extends BaseScatterConfig {
   offsetCurve?: (t: number) => number;
 }
 
+/**
+ * Generator params for spline placement (frames flattened to packed xyz arrays)
+ */
+interface SplineGeneratorParams {
+  points: Float32Array;
+  tangents: Float32Array;
+  normals: Float32Array;
+  binormals: Float32Array;
+  width: number;
+  distributionsPerSegment: number;
+  bankAngle: number;
+  followTangent: boolean;
+  offsetCurve?: (t: number) => number;
+}
+
 /**
  * Scatter system with advanced spline features including banking and Frenet frames
  */
 export class SplineScatterSystem extends BaseScatterSystem {
+  protected readonly generatorType = 'spline';
   private spline: THREE.CatmullRomCurve3 | THREE.CubicBezierCurve3 | THREE.QuadraticBezierCurve3;
   private distributionMode: 'uniform' | 'adaptive' | 'density-based';
   private segmentCount: number;
@@ -176,28 +191,24 @@ export class SplineScatterSystem extends BaseScatterSystem {
   }
 
   protected updateChunks(): void {
-    const camera = this.getCurrentCamera();
-    if (!camera) return;
-    const cameraPos = camera.position;
-    const visRange = this.config.visibilityRange;
+    if (!this.viewerPositions.length) return;
     const chunkSize = this.config.chunkSize;
 
     const activeChunkKeys = new Set<string>();
 
     for (let i = 0; i < this.splinePoints.length; i++) {
       const point = this.splinePoints[i];
-      const distance = point.distanceTo(cameraPos);
-
-      if (distance <= visRange) {
-        const chunkX = Math.floor(point.x / chunkSize) * chunkSize + chunkSize / 2;
-        const chunkZ = Math.floor(point.z / chunkSize) * chunkSize + chunkSize / 2;
-        const key = this.getChunkKey(chunkX, chunkZ);
+      const chunkX = Math.floor(point.x / chunkSize) * chunkSize + chunkSize / 2;
+      const chunkZ = Math.floor(point.z / chunkSize) * chunkSize + chunkSize / 2;
+      const key = this.getChunkKey(chunkX, chunkZ);
+      const distance = this.getNearestViewerDistance3D(point);
 
+      if (distance <= this.getChunkRange(key)) {
         if (!activeChunkKeys.has(key)) {
           activeChunkKeys.add(key);
 
           if (!this.chunks.has(key) || !this.chunks.get(key)!.isActive) {
-            this.activateChunk(chunkX, chunkZ, i);
+            this.activateChunk(chunkX, chunkZ);
           }
         }
       }
@@ -210,47 +221,115 @@ export class SplineScatterSystem extends BaseScatterSystem {
     }
   }
 
-  protected populateChunk(chunk: ChunkData, centerX: number, centerZ: number): void {
-    const halfSize = this.config.chunkSize / 2;
-    const chunkBounds = new THREE.Box3(
-      new THREE.Vector3(centerX - halfSize, -Infinity, centerZ - halfSize),
-      new THREE.Vector3(centerX + halfSize, Infinity, centerZ + halfSize)
+  /**
+   * Index of the first spline point inside the chunk
+   */
+  protected getChunkExtraData(chunkX: number, chunkZ: number): number {
+    const chunkSize = this.config.chunkSize;
+    return this.splinePoints.findIndex(point =>
+      Math.floor(point.x / chunkSize) * chunkSize + chunkSize / 2 === chunkX &&
+      Math.floor(point.z / chunkSize) * chunkSize + chunkSize / 2 === chunkZ
     );
+  }
+
+  protected getGeneratorParams(): SplineGeneratorParams {
+    const pack = (vectors: THREE.Vector3[]) => new Float32Array(vectors.flatMap(v => v.toArray()));
+
+    return {
+      points: pack(this.splinePoints),
+      tangents: pack(this.splineTangents),
+      normals: pack(this.splineNormals),
+      binormals: pack(this.splineBinormals),
+      width: this.width,
+      distributionsPerSegment: this.distributionsPerSegment,
+      bankAngle: this.bankAngle,
+      followTangent: this.followTangent,
+      offsetCurve: this.offsetCurve
+    };
+  }
+
+  protected canGenerateInWorker(): boolean {
+    // Offset curves are functions and cannot be sent to a worker
+    return !this.offsetCurve;
+  }
 
-    const chunkSeed = ((centerX * 73856093) ^ (centerZ * 19349663) ^ this.config.randomSeed) >>> 0;
-    const rng = new SeededRandom(chunkSeed);
+  /**
+   * Update the spline and regenerate
+   */
+  updateSpline(
+    spline: THREE.CatmullRomCurve3 | THREE.CubicBezierCurve3 | THREE.QuadraticBezierCurve3,
+    segmentCount?: number
+  ): void {
+    this.spline = spline;
+    if (segmentCount) this.segmentCount = segmentCount;
+    this.generateSplineData();
+    this.regenerateAll();
+  }
+
+  /**
+   * Set the bank angle and regenerate
+   */
+  setBankAngle(angle: number): void {
+    this.bankAngle = angle;
+    this.regenerateAll();
+  }
+}
+
+/**
+ * Spline placement: instances along precomputed Frenet frames with banking and lane offsets
+ */
+class SplineChunkGenerator extends ChunkGenerator<SplineGeneratorParams> {
+  private splinePoints: THREE.Vector3[] = [];
+  private splineTangents: THREE.Vector3[] = [];
+  private splineNormals: THREE.Vector3[] = [];
+  private splineBinormals: THREE.Vector3[] = [];
+
+  constructor(settings: GenerationSettings, params: SplineGeneratorParams) {
+    super(settings, params);
+    for (let i = 0; i < params.points.length; i += 3) {
+      this.splinePoints.push(new THREE.Vector3().fromArray(params.points, i));
+      this.splineTangents.push(new THREE.Vector3().fromArray(params.tangents, i));
+      this.splineNormals.push(new THREE.Vector3().fromArray(params.normals, i));
+      this.splineBinormals.push(new THREE.Vector3().fromArray(params.binormals, i));
+    }
+  }
+
+  generate(task: ChunkTask): Float32Array {
+    const { width, distributionsPerSegment, bankAngle, followTangent, offsetCurve } = this.params;
+    const out: number[] = [];
 
     for (let i = 0; i < this.splinePoints.length; i++) {
       const point = this.splinePoints[i];
-      if (!chunkBounds.containsPoint(point)) continue;
+      if (!this.isInChunk(task, point.x, point.z)) continue;
 
       const tangent = this.splineTangents[i];
       const normal = this.splineNormals[i];
       const binormal = this.splineBinormals[i];
       const t = i / (this.splinePoints.length - 1);
 
-      const bank = this.bankAngle * Math.sin(t * Math.PI * 2);
-
-      for (let w = 0; w < this.distributionsPerSegment; w++) {
-        const instanceId = this.instancePool.acquire();
-        if (instanceId === null) break;
+      const bank = bankAngle * Math.sin(t * Math.PI * 2);
 
+      for (let w = 0; w < distributionsPerSegment; w++) {
+        // Each instance has its own sequence, so placement doesn't depend on chunkSize
+        const rng = this.createHashedRandom(i, w);
         const position = point.clone();
 
-        if (this.width > 0 && this.distributionsPerSegment > 1) {
-          const widthT = w / (this.distributionsPerSegment - 1);
-          const widthOffset = (widthT - 0.5) * this.width;
+        if (width > 0 && distributionsPerSegment > 1) {
+          const widthT = w / (distributionsPerSegment - 1);
+          const widthOffset = (widthT - 0.5) * width;
           position.add(normal.clone().multiplyScalar(widthOffset));
         }
 
-        if (this.offsetCurve) {
-          const customOffset = this.offsetCurve(t);
+        if (offsetCurve) {
+          const customOffset = offsetCurve(t);
           position.add(binormal.clone().multiplyScalar(customOffset));
         }
 
+        if (!this.passesPlacementRules(position)) continue;
+
         const rotation = new THREE.Euler();
 
-        if (this.followTangent) {
+        if (followTangent) {
           const quaternion = new THREE.Quaternion();
           const matrix = new THREE.Matrix4().lookAt(
             new THREE.Vector3(0, 0, 0),
@@ -262,37 +341,23 @@ export class SplineScatterSystem extends BaseScatterSystem {
           rotation.z += bank;
         }
 
-        rotation.y += rng.range(...this.config.rotationRange);
+        const variant = this.pickVariant(rng);
+        rotation.y += rng.range(...variant.rotationRange);
 
-        const baseScale = rng.range(...this.config.scaleRange);
+        const baseScale = rng.range(...variant.scaleRange);
         const scale = new THREE.Vector3(baseScale, baseScale, baseScale);
 
-        position.y += this.config.heightOffset;
+        position.y += this.settings.heightOffset;
 
-        this.converter.setInstanceTransform(instanceId, position, rotation, scale);
-        chunk.instances.push(instanceId);
+        this.pushTransform(out, position, rotation, scale, variant.index);
       }
     }
-  }
-
-  /**
-   * Update the spline and regenerate
-   */
-  updateSpline(
-    spline: THREE.CatmullRomCurve3 | THREE.CubicBezierCurve3 | THREE.QuadraticBezierCurve3,
-    segmentCount?: number
-  ): void {
-    this.spline = spline;
-    if (segmentCount) this.segmentCount = segmentCount;
-    this.generateSplineData();
-    this.regenerateAll();
-  }
 
-  /**
-   * Set the bank angle and regenerate
-   */
-  setBankAngle(angle: number): void {
-    this.bankAngle = angle;
-    this.regenerateAll();
+    return new Float32Array(out);
   }
 }
+
+ChunkGeneratorRegistry.register(
+  'spline',
+  (settings, params: SplineGeneratorParams) => new SplineChunkGenerator(settings, params)
+);
@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { BaseScatterSystem, BaseScatterConfig, ChunkData } from '../core';
+import { BaseScatterSystem, BaseScatterConfig, ChunkGenerator, ChunkGeneratorRegistry, ChunkTask, GenerationSettings } from '../core';
 import { SeededRandom } from '../utils';
 
 /**
@@ -16,16 +16,26 @@ export interface VolumeScatterConfig extends BaseScatterConfig {
   falloffDistance?: number;
 }
 
+/**
+ * Generator params for volume placement
+ */
+interface VolumeGeneratorParams {
+  min: [number, number, number];
+  max: [number, number, number];
+  volumeType: 'box' | 'sphere' | 'cylinder';
+  hollowness: number;
+  falloffDistance: number;
+}
+
 /**
  * Scatter system distributing instances within a 3D volume
  */
 export class VolumeScatterSystem extends BaseScatterSystem {
+  protected readonly generatorType = 'volume';
   private bounds: THREE.Box3;
   private volumeType: 'box' | 'sphere' | 'cylinder';
   private hollowness: number;
   private falloffDistance: number;
-  private center: THREE.Vector3;
-  private radius: number;
 
   constructor(config: VolumeScatterConfig) {
     super(config);
@@ -34,13 +44,6 @@ export class VolumeScatterSystem extends BaseScatterSystem {
     this.hollowness = config.hollowness ?? 0;
     this.falloffDistance = config.falloffDistance ?? 0;
 
-    this.center = new THREE.Vector3();
-    this.bounds.getCenter(this.center);
-
-    const size = new THREE.Vector3();
-    this.bounds.getSize(size);
-    this.radius = Math.max(size.x, size.y, size.z) / 2;
-
     this.init();
   }
 
@@ -49,10 +52,7 @@ export class VolumeScatterSystem extends BaseScatterSystem {
   }
 
   protected updateChunks(): void {
-    const camera = this.getCurrentCamera();
-    if (!camera) return;
-    const cameraPos = camera.position;
-    const visRange = this.config.visibilityRange;
+    if (!this.viewerPositions.length) return;
     const chunkSize = this.config.chunkSize;
 
     const activeChunkKeys = new Set<string>();
@@ -67,19 +67,17 @@ export class VolumeScatterSystem extends BaseScatterSystem {
         const chunkX = x + chunkSize / 2;
         const chunkZ = z + chunkSize / 2;
 
-        const dx = chunkX - cameraPos.x;
-        const dz = chunkZ - cameraPos.z;
-        const distance = Math.sqrt(dx * dx + dz * dz);
+        const key = this.getChunkKey(chunkX, chunkZ);
+        const distance = this.getNearestViewerDistance(chunkX, chunkZ);
 
-        if (distance <= visRange) {
+        if (distance <= this.getChunkRange(key)) {
           // Frustum culling
           const chunkBounds = new THREE.Box3(
             new THREE.Vector3(chunkX - chunkSize / 2, this.bounds.min.y, chunkZ - chunkSize / 2),
             new THREE.Vector3(chunkX + chunkSize / 2, this.bounds.max.y, chunkZ + chunkSize / 2)
           );
-          if (!this.isChunkInFrustum(chunkBounds)) continue;
+          if (!this.isChunkInView(key, chunkBounds)) continue;
 
-          const key = this.getChunkKey(chunkX, chunkZ);
           activeChunkKeys.add(key);
 
           if (!this.chunks.has(key) || !this.chunks.get(key)!.isActive) {
@@ -96,68 +94,95 @@ export class VolumeScatterSystem extends BaseScatterSystem {
     }
   }
 
-  protected populateChunk(chunk: ChunkData, centerX: number, centerZ: number): void {
-    const halfSize = this.config.chunkSize / 2;
-    const chunkBounds = new THREE.Box3(
-      new THREE.Vector3(centerX - halfSize, this.bounds.min.y, centerZ - halfSize),
-      new THREE.Vector3(centerX + halfSize, this.bounds.max.y, centerZ + halfSize)
-    );
+  protected getGeneratorParams(): VolumeGeneratorParams {
+    return {
+      min: [this.bounds.min.x, this.bounds.min.y, this.bounds.min.z],
+      max: [this.bounds.max.x, this.bounds.max.y, this.bounds.max.z],
+      volumeType: this.volumeType,
+      hollowness: this.hollowness,
+      falloffDistance: this.falloffDistance
+    };
+  }
 
-    const chunkVolume = chunkBounds.getSize(new THREE.Vector3()).length();
-    const lodMultiplier = this.getLODDensityMultiplier(centerX, centerZ);
-    const targetCount = Math.floor(chunkVolume * this.config.density * lodMultiplier);
+  /**
+   * Update the volume bounds and regenerate
+   */
+  updateBounds(bounds: THREE.Box3): void {
+    this.bounds = bounds;
+    this.regenerateAll();
+  }
+}
 
-    const chunkSeed = ((centerX * 73856093) ^ (centerZ * 19349663) ^ this.config.randomSeed) >>> 0;
-    const rng = new SeededRandom(chunkSeed);
+/**
+ * Volume placement: random 3D samples inside a box, sphere or cylinder
+ */
+class VolumeChunkGenerator extends ChunkGenerator<VolumeGeneratorParams> {
+  private bounds: THREE.Box3;
+  private center: THREE.Vector3;
+  private radius: number;
+
+  constructor(settings: GenerationSettings, params: VolumeGeneratorParams) {
+    super(settings, params);
+    this.bounds = new THREE.Box3(new THREE.Vector3(...params.min), new THREE.Vector3(...params.max));
+    this.center = this.bounds.getCenter(new THREE.Vector3());
+    const size = this.bounds.getSize(new THREE.Vector3());
+    this.radius = Math.max(size.x, size.y, size.z) / 2;
+  }
 
-    let placed = 0;
-    let attempts = 0;
-    const maxAttempts = targetCount * 5;
+  generate(task: ChunkTask): Float32Array {
+    const height = this.bounds.max.y - this.bounds.min.y;
+    const noise = this.createNoise(task);
+    const out: number[] = [];
 
-    while (placed < targetCount && attempts < maxAttempts) {
-      attempts++;
+    this.forEachCell(task, (minX, minZ, cellSize, rng) => {
+      // Cells outside the volume's footprint hold no candidates
+      if (minX > this.bounds.max.x || minX + cellSize < this.bounds.min.x) return;
+      if (minZ > this.bounds.max.z || minZ + cellSize < this.bounds.min.z) return;
 
-      const x = rng.range(chunkBounds.min.x, chunkBounds.max.x);
-      const y = rng.range(chunkBounds.min.y, chunkBounds.max.y);
-      const z = rng.range(chunkBounds.min.z, chunkBounds.max.z);
-      const position = new THREE.Vector3(x, y, z);
+      const count = this.getCandidateCount(cellSize * cellSize * height * this.settings.density, rng);
 
-      if (!this.isPointInVolume(position, rng)) continue;
-      if (!this.shouldPlaceInstance(x, z, chunk.noiseGenerator!)) continue;
+      for (let i = 0; i < count; i++) {
+        const x = minX + rng.next() * cellSize;
+        const y = rng.range(this.bounds.min.y, this.bounds.max.y);
+        const z = minZ + rng.next() * cellSize;
+        const position = new THREE.Vector3(x, y, z);
 
-      const instanceId = this.instancePool.acquire();
-      if (instanceId === null) break;
+        if (!this.isPointInVolume(position, rng)) continue;
+        if (!this.shouldPlaceInstance(x, z, noise)) continue;
+        if (!this.passesPlacementRules(position)) continue;
 
-      const rotation = new THREE.Euler(
-        rng.range(0, Math.PI * 2),
-        rng.range(0, Math.PI * 2),
-        rng.range(0, Math.PI * 2)
-      );
+        const variant = this.pickVariant(rng);
+        const rotation = new THREE.Euler(
+          rng.range(0, Math.PI * 2),
+          rng.range(0, Math.PI * 2),
+          rng.range(0, Math.PI * 2)
+        );
 
-      const baseScale = rng.range(...this.config.scaleRange);
-      const scale = new THREE.Vector3(baseScale, baseScale, baseScale);
+        const baseScale = rng.range(...variant.scaleRange);
+        const scale = new THREE.Vector3(baseScale, baseScale, baseScale);
 
-      position.y += this.config.heightOffset;
+        position.y += this.settings.heightOffset;
 
-      this.converter.setInstanceTransform(instanceId, position, rotation, scale);
-      chunk.instances.push(instanceId);
-      placed++;
-    }
+        this.pushTransform(out, position, rotation, scale, variant.index);
+      }
+    });
+
+    return new Float32Array(out);
   }
 
   private isPointInVolume(point: THREE.Vector3, rng: SeededRandom): boolean {
     let normalizedDistance = 0;
 
-    switch (this.volumeType) {
+    switch (this.params.volumeType) {
       case 'sphere': {
         const distanceFromCenter = point.distanceTo(this.center);
         normalizedDistance = distanceFromCenter / this.radius;
 
         if (normalizedDistance > 1) return false;
-        if (this.hollowness > 0 && normalizedDistance < this.hollowness) return false;
+        if (this.params.hollowness > 0 && normalizedDistance < this.params.hollowness) return false;
 
-        if (this.falloffDistance > 0) {
-          const falloffStart = 1 - this.falloffDistance / this.radius;
+        if (this.params.falloffDistance > 0) {
+          const falloffStart = 1 - this.params.falloffDistance / this.radius;
           if (normalizedDistance > falloffStart) {
             const falloffT = (normalizedDistance - falloffStart) / (1 - falloffStart);
             if (rng.next() > 1 - falloffT) return false;
@@ -173,7 +198,7 @@ export class VolumeScatterSystem extends BaseScatterSystem {
         normalizedDistance = radialDist / this.radius;
 
         if (normalizedDistance > 1) return false;
-        if (this.hollowness > 0 && normalizedDistance < this.hollowness) return false;
+        if (this.params.hollowness > 0 && normalizedDistance < this.params.hollowness) return false;
         if (point.y < this.bounds.min.y || point.y > this.bounds.max.y) return false;
         break;
       }
@@ -182,7 +207,7 @@ export class VolumeScatterSystem extends BaseScatterSystem {
       default: {
         if (!this.bounds.containsPoint(point)) return false;
 
-        if (this.hollowness > 0) {
+        if (this.params.hollowness > 0) {
           const size = new THREE.Vector3();
           this.bounds.getSize(size);
           const minDist = Math.min(
@@ -194,7 +219,7 @@ export class VolumeScatterSystem extends BaseScatterSystem {
             this.bounds.max.z - point.z
           );
           const maxSize = Math.max(size.x, size.y, size.z);
-          if (minDist / maxSize > 1 - this.hollowness) return false;
+          if (minDist / maxSize > 1 - this.params.hollowness) return false;
         }
         break;
       }
@@ -202,16 +227,9 @@ export class VolumeScatterSystem extends BaseScatterSystem {
 
     return true;
   }
-
-  /**
-   * Update the volume bounds and regenerate
-   */
-  updateBounds(bounds: THREE.Box3): void {
-    this.bounds = bounds;
-    this.bounds.getCenter(this.center);
-    const size = new THREE.Vector3();
-    this.bounds.getSize(size);
-    this.radius = Math.max(size.x, size.y, size.z) / 2;
-    this.regenerateAll();
-  }
 }
+
+ChunkGeneratorRegistry.register(
+  'volume',
+  (settings, params: VolumeGeneratorParams) => new VolumeChunkGenerator(settings, params)
+);
@@ -0,0 +1,125 @@
+import type * as THREE from 'three';
+import type { ChunkCandidates } from '../core/ChunkGenerator';
+
+/**
+ * Cached state of a hidden chunk
+ */
+export interface CachedChunk extends ChunkCandidates {
+  /** Merged HLOD mesh of the chunk; its geometry is disposed when the entry is evicted */
+  hlod?: THREE.Mesh | null;
+}
+
+/**
+ * Least-recently-used cache of generated chunk transforms.
+ * Bounded by chunk count and by bytes, whichever is hit first.
+ */
+export class ChunkTransformCache {
+  private entries: Map<string, CachedChunk> = new Map();
+  private bytes: number = 0;
+  private hits: number = 0;
+  private misses: number = 0;
+  private maxChunks: number;
+  private maxBytes: number;
+
+  constructor(maxChunks: number, maxBytes: number) {
+    this.maxChunks = maxChunks;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Take cached state of a chunk, counting a hit or a miss.
+   * The caller owns the returned HLOD mesh.
+   * @returns Packed matrices, variants and HLOD mesh, or null on a miss
+   */
+  take(key: string): CachedChunk | null {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    this.remove(key, false);
+    this.hits++;
+    return entry;
+  }
+
+  /**
+   * Read cached state of a chunk without taking it or counting a hit
+   */
+  peek(key: string): CachedChunk | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  /**
+   * Store a chunk as most recently used, evicting the oldest entries over budget
+   */
+  set(key: string, entry: CachedChunk): void {
+    this.remove(key, this.entries.get(key)?.hlod !== entry.hlod);
+    const byteLength = getByteLength(entry);
+    if (this.maxChunks <= 0 || byteLength > this.maxBytes) {
+      entry.hlod?.geometry.dispose();
+      return;
+    }
+
+    this.entries.set(key, entry);
+    this.bytes += byteLength;
+
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxChunks && this.bytes <= this.maxBytes) break;
+      this.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Remove a chunk from the cache, disposing its HLOD geometry
+   */
+  delete(key: string): void {
+    this.remove(key, true);
+  }
+
+  private remove(key: string, dispose: boolean): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.bytes -= getByteLength(entry);
+    this.entries.delete(key);
+    if (dispose) entry.hlod?.geometry.dispose();
+  }
+
+  /**
+   * Remove all entries, disposing their HLOD geometry (hit/miss counters are kept)
+   */
+  clear(): void {
+    for (const entry of this.entries.values()) {
+      entry.hlod?.geometry.dispose();
+    }
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): { chunks: number; bytes: number; hits: number; misses: number; hitRate: number } {
+    const lookups = this.hits + this.misses;
+    return {
+      chunks: this.entries.size,
+      bytes: this.bytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+}
+
+function getByteLength(entry: CachedChunk): number {
+  let bytes = entry.matrices.byteLength + entry.normals.byteLength + (entry.variants?.byteLength ?? 0) + (entry.rejections?.byteLength ?? 0);
+  const geometry = entry.hlod?.geometry;
+  if (geometry) {
+    for (const attribute of Object.values(geometry.attributes)) {
+      bytes += attribute.array.byteLength;
+    }
+    bytes += geometry.index?.array.byteLength ?? 0;
+  }
+  return bytes;
+}
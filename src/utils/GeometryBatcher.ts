@@ -0,0 +1,211 @@
+import * as THREE from 'three';
+
+/**
+ * Mesh of a source object with its transform relative to the source
+ */
+interface BatchPart {
+  geometry: THREE.BufferGeometry;
+  matrix: THREE.Matrix4;
+  /** Index (or vertex) ranges and the batch material each is drawn with */
+  ranges: Array<{ start: number; count: number; material: number }>;
+  castShadow: boolean;
+  receiveShadow: boolean;
+}
+
+/**
+ * Bakes transformed copies of source objects into one merged BufferGeometry
+ * with a group per material, so a whole chunk draws as a single static mesh.
+ * Only vertex attributes present in every source geometry are kept.
+ */
+export class GeometryBatcher {
+  private sources: BatchPart[][];
+  private materials: THREE.Material[] = [];
+  private attributes: Array<{ name: string; itemSize: number }> = [];
+  private _matrix: THREE.Matrix4 = new THREE.Matrix4();
+  private _normalMatrix: THREE.Matrix3 = new THREE.Matrix3();
+  private _scale: THREE.Vector3 = new THREE.Vector3();
+  private _vector: THREE.Vector3 = new THREE.Vector3();
+
+  /**
+   * @param sources - Objects to bake; build() picks one per transform by index
+   */
+  constructor(sources: Array<THREE.Mesh | THREE.Group>) {
+    this.sources = sources.map(source => this.collectParts(source));
+    this.attributes = this.getSharedAttributes();
+  }
+
+  private collectParts(source: THREE.Mesh | THREE.Group): BatchPart[] {
+    const parts: BatchPart[] = [];
+
+    source.traverse(child => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const geometry = child.geometry as THREE.BufferGeometry;
+      const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      const total = geometry.index ? geometry.index.count : geometry.getAttribute('position')?.count ?? 0;
+
+      // Same relative transform as MeshToInstancedMeshConverter
+      const matrix = new THREE.Matrix4();
+      if (child.parent && child.parent !== source) {
+        child.updateMatrixWorld(true);
+        matrix.copy(child.matrixWorld);
+        if (source.parent) {
+          source.parent.updateMatrixWorld(true);
+          matrix.premultiply(new THREE.Matrix4().copy(source.parent.matrixWorld).invert());
+        }
+      } else {
+        matrix.compose(child.position, new THREE.Quaternion().setFromEuler(child.rotation), child.scale);
+      }
+
+      const ranges = Array.isArray(child.material) && geometry.groups.length > 0
+        ? geometry.groups.map(group => ({
+          start: group.start,
+          count: Math.min(group.count, total - group.start),
+          material: this.getMaterialIndex(materials[group.materialIndex ?? 0])
+        }))
+        : [{ start: 0, count: total, material: this.getMaterialIndex(materials[0]) }];
+
+      parts.push({
+        geometry,
+        matrix,
+        ranges: ranges.filter(range => range.count > 0),
+        castShadow: child.castShadow,
+        receiveShadow: child.receiveShadow
+      });
+    });
+
+    return parts;
+  }
+
+  private getMaterialIndex(material: THREE.Material): number {
+    const index = this.materials.indexOf(material);
+    if (index !== -1) return index;
+    this.materials.push(material);
+    return this.materials.length - 1;
+  }
+
+  /**
+   * Vertex attributes present with the same item size in every part
+   */
+  private getSharedAttributes(): Array<{ name: string; itemSize: number }> {
+    const parts = this.sources.flat();
+    if (parts.length === 0) return [];
+
+    const shared: Array<{ name: string; itemSize: number }> = [];
+    for (const [name, attribute] of Object.entries(parts[0].geometry.attributes)) {
+      if (attribute instanceof THREE.InstancedBufferAttribute) continue;
+      const itemSize = attribute.itemSize;
+      if (parts.every(part => part.geometry.getAttribute(name)?.itemSize === itemSize)) {
+        shared.push({ name, itemSize });
+      }
+    }
+    return shared.some(attribute => attribute.name === 'position') ? shared : [];
+  }
+
+  /**
+   * Merge one copy of a source per transform
+   * @param matrices - Packed transforms (16 floats each)
+   * @param sourceIndices - Source of each transform (null: all use the first source)
+   * @param count - Number of transforms to bake
+   * @param scale - Uniform multiplier applied to each transform's scale (default: 1)
+   * @returns Merged mesh, or null when there is nothing to draw
+   */
+  build(matrices: Float32Array, sourceIndices: ArrayLike<number> | null, count: number, scale: number = 1): THREE.Mesh | null {
+    if (this.attributes.length === 0) return null;
+
+    let vertexCount = 0;
+    let indexCount = 0;
+    for (let i = 0; i < count; i++) {
+      for (const part of this.sources[sourceIndices ? sourceIndices[i] : 0] ?? []) {
+        vertexCount += part.geometry.getAttribute('position').count;
+        for (const range of part.ranges) indexCount += range.count;
+      }
+    }
+    if (indexCount === 0) return null;
+
+    const arrays = this.attributes.map(({ itemSize }) => new Float32Array(vertexCount * itemSize));
+    const bases: number[] = [];
+    let vertexBase = 0;
+    let castShadow = false;
+    let receiveShadow = false;
+
+    for (let i = 0; i < count; i++) {
+      const parts = this.sources[sourceIndices ? sourceIndices[i] : 0] ?? [];
+      for (const part of parts) {
+        this._matrix.fromArray(matrices, i * 16);
+        if (scale !== 1) this._matrix.scale(this._scale.setScalar(scale));
+        this._matrix.multiply(part.matrix);
+        this._normalMatrix.getNormalMatrix(this._matrix);
+        this.writeVertices(part.geometry, arrays, vertexBase);
+
+        bases.push(vertexBase);
+        vertexBase += part.geometry.getAttribute('position').count;
+        castShadow ||= part.castShadow;
+        receiveShadow ||= part.receiveShadow;
+      }
+    }
+
+    // Indices grouped by material, so each material draws one contiguous range
+    const index = new Uint32Array(indexCount);
+    const geometry = new THREE.BufferGeometry();
+    let offset = 0;
+    for (let material = 0; material < this.materials.length; material++) {
+      const groupStart = offset;
+      let part = 0;
+      for (let i = 0; i < count; i++) {
+        for (const { geometry: source, ranges } of this.sources[sourceIndices ? sourceIndices[i] : 0] ?? []) {
+          const base = bases[part++];
+          for (const range of ranges) {
+            if (range.material !== material) continue;
+            for (let j = range.start; j < range.start + range.count; j++) {
+              index[offset++] = base + (source.index ? source.index.getX(j) : j);
+            }
+          }
+        }
+      }
+      if (offset > groupStart && this.materials.length > 1) {
+        geometry.addGroup(groupStart, offset - groupStart, material);
+      }
+    }
+
+    this.attributes.forEach(({ name, itemSize }, i) => {
+      geometry.setAttribute(name, new THREE.BufferAttribute(arrays[i], itemSize));
+    });
+    geometry.setIndex(new THREE.BufferAttribute(index, 1));
+    geometry.computeBoundingBox();
+    geometry.computeBoundingSphere();
+
+    const mesh = new THREE.Mesh(geometry, this.materials.length === 1 ? this.materials[0] : this.materials);
+    mesh.castShadow = castShadow;
+    mesh.receiveShadow = receiveShadow;
+    mesh.matrixAutoUpdate = false;
+    return mesh;
+  }
+
+  /**
+   * Copy a part's vertices transformed by the current matrix into the merged arrays
+   */
+  private writeVertices(geometry: THREE.BufferGeometry, arrays: Float32Array[], base: number): void {
+    this.attributes.forEach(({ name, itemSize }, a) => {
+      const source = geometry.getAttribute(name);
+      const target = arrays[a];
+
+      for (let v = 0; v < source.count; v++) {
+        const offset = (base + v) * itemSize;
+        if (name === 'position' || name === 'normal' || name === 'tangent') {
+          this._vector.set(source.getX(v), source.getY(v), source.getZ(v));
+          if (name === 'position') this._vector.applyMatrix4(this._matrix);
+          else if (name === 'normal') this._vector.applyNormalMatrix(this._normalMatrix);
+          else this._vector.transformDirection(this._matrix);
+          this._vector.toArray(target, offset);
+          if (itemSize === 4) target[offset + 3] = source.getW(v);
+          continue;
+        }
+
+        target[offset] = source.getX(v);
+        if (itemSize > 1) target[offset + 1] = source.getY(v);
+        if (itemSize > 2) target[offset + 2] = source.getZ(v);
+        if (itemSize > 3) target[offset + 3] = source.getW(v);
+      }
+    });
+  }
+}
@@ -0,0 +1,218 @@
+import * as THREE from 'three';
+
+/**
+ * Raw pixel buffer usable without a DOM (Node, Web Workers, tests)
+ */
+export interface RawImageData {
+  /** Pixel values, row-major. Uint8 data is normalized by 255, float data is used as-is */
+  data: Uint8Array | Uint8ClampedArray | Float32Array;
+  width: number;
+  height: number;
+  /** Values per pixel (default: inferred from data length, usually 4) */
+  channels?: 1 | 2 | 3 | 4;
+  /** Row order of the buffer (default: 'top-left', as produced by canvas and image decoders) */
+  origin?: 'top-left' | 'bottom-left';
+}
+
+/**
+ * User-supplied decoder turning a URL into pixels (e.g. pngjs or sharp in Node)
+ */
+export type ImageDecoder = (url: string) => Promise<RawImageData> | RawImageData;
+
+/**
+ * Any input a density map, heightmap, mask or blend mask can be read from
+ */
+export type ImageDataSource =
+  | string
+  | RawImageData
+  | THREE.Texture
+  | ImageData
+  | OffscreenCanvas
+  | (() => Promise<RawImageData> | RawImageData);
+
+/**
+ * Color channel selector
+ */
+export type ImageChannel = 'r' | 'g' | 'b' | 'a';
+
+const CHANNEL_INDEX: Record<ImageChannel, number> = { r: 0, g: 1, b: 2, a: 3 };
+
+/**
+ * Decoded image that can be sampled in UV space.
+ * Produces identical values regardless of where the pixels came from,
+ * so texture-driven scatters lay out the same in a browser and in Node.
+ */
+export class ImageSampler {
+  readonly width: number;
+  readonly height: number;
+  readonly channels: number;
+  private data: Uint8Array | Uint8ClampedArray | Float32Array;
+  private normalize: number;
+  private bottomUp: boolean;
+
+  constructor(raw: RawImageData) {
+    this.width = raw.width;
+    this.height = raw.height;
+    this.channels = raw.channels ?? Math.max(1, Math.min(4, Math.round(raw.data.length / (raw.width * raw.height)))) as 1 | 2 | 3 | 4;
+    this.data = raw.data;
+    this.normalize = raw.data instanceof Float32Array ? 1 : 1 / 255;
+    this.bottomUp = raw.origin === 'bottom-left';
+  }
+
+  /**
+   * Load a sampler from any supported source
+   * @param source - URL, pixel buffer, texture, ImageData, OffscreenCanvas or decoder callback
+   * @param decoder - Optional decoder used for URL sources (required outside the browser)
+   */
+  static async load(source: ImageDataSource, decoder?: ImageDecoder): Promise<ImageSampler> {
+    return new ImageSampler(await ImageSampler.resolve(source, decoder));
+  }
+
+  /**
+   * Get the underlying pixels, e.g. to send them to a worker
+   */
+  toRawImageData(): RawImageData {
+    return {
+      data: this.data,
+      width: this.width,
+      height: this.height,
+      channels: this.channels as 1 | 2 | 3 | 4,
+      origin: this.bottomUp ? 'bottom-left' : 'top-left'
+    };
+  }
+
+  /**
+   * Read the value of a pixel (0-1 for 8-bit sources)
+   * @param px - Column index
+   * @param py - Row index, counted from the top of the image
+   * @param channel - Channel to read
+   */
+  getPixel(px: number, py: number, channel: ImageChannel = 'r'): number {
+    const x = Math.min(this.width - 1, Math.max(0, px));
+    let y = Math.min(this.height - 1, Math.max(0, py));
+    if (this.bottomUp) y = this.height - 1 - y;
+
+    const base = (y * this.width + x) * this.channels;
+    const c = CHANNEL_INDEX[channel];
+
+    switch (this.channels) {
+      case 1:
+        return c === 3 ? 1 : this.data[base] * this.normalize;
+      case 2:
+        return (c === 3 ? this.data[base + 1] : this.data[base]) * this.normalize;
+      case 3:
+        return c === 3 ? 1 : this.data[base + c] * this.normalize;
+      default:
+        return this.data[base + c] * this.normalize;
+    }
+  }
+
+  /**
+   * Sample at UV coordinates using nearest-pixel lookup (v = 1 is the top row)
+   */
+  sample(u: number, v: number, channel: ImageChannel = 'r'): number {
+    const px = Math.floor(u * (this.width - 1));
+    const py = Math.floor((1 - v) * (this.height - 1));
+    return this.getPixel(px, py, channel);
+  }
+
+  /**
+   * Sample at UV coordinates, interpolating between the four nearest pixels
+   */
+  sampleBilinear(u: number, v: number, channel: ImageChannel = 'r'): number {
+    const fx = u * (this.width - 1);
+    const fy = (1 - v) * (this.height - 1);
+    const x0 = Math.floor(fx);
+    const y0 = Math.floor(fy);
+    const tx = fx - x0;
+    const ty = fy - y0;
+
+    const top = this.getPixel(x0, y0, channel) * (1 - tx) + this.getPixel(x0 + 1, y0, channel) * tx;
+    const bottom = this.getPixel(x0, y0 + 1, channel) * (1 - tx) + this.getPixel(x0 + 1, y0 + 1, channel) * tx;
+    return top * (1 - ty) + bottom * ty;
+  }
+
+  private static async resolve(source: ImageDataSource, decoder?: ImageDecoder): Promise<RawImageData> {
+    if (typeof source === 'string') {
+      return ImageSampler.loadUrl(source, decoder);
+    }
+    if (typeof source === 'function') {
+      return source();
+    }
+    if (source instanceof THREE.Texture) {
+      return ImageSampler.fromTexture(source);
+    }
+    if (typeof ImageData !== 'undefined' && source instanceof ImageData) {
+      return { data: source.data, width: source.width, height: source.height, channels: 4 };
+    }
+    if (typeof OffscreenCanvas !== 'undefined' && source instanceof OffscreenCanvas) {
+      const ctx = source.getContext('2d') as OffscreenCanvasRenderingContext2D;
+      const imageData = ctx.getImageData(0, 0, source.width, source.height);
+      return { data: imageData.data, width: imageData.width, height: imageData.height, channels: 4 };
+    }
+    return source as RawImageData;
+  }
+
+  private static fromTexture(texture: THREE.Texture): RawImageData {
+    const image = texture.image as { data?: ArrayLike<number>; width: number; height: number };
+
+    if (image && image.data) {
+      // DataTexture rows are uploaded bottom-up
+      let data: Uint8Array | Uint8ClampedArray | Float32Array;
+      if (image.data instanceof Uint8Array || image.data instanceof Uint8ClampedArray || image.data instanceof Float32Array) {
+        data = image.data;
+      } else if (image.data instanceof Uint16Array && texture.type === THREE.HalfFloatType) {
+        data = Float32Array.from(image.data, (h) => THREE.DataUtils.fromHalfFloat(h));
+      } else if (image.data instanceof Uint16Array) {
+        // Normalized like 8-bit data, so samples stay in 0-1
+        data = Float32Array.from(image.data, (v) => v / 65535);
+      } else {
+        data = Float32Array.from(image.data);
+      }
+      return { data, width: image.width, height: image.height, origin: texture.flipY ? 'top-left' : 'bottom-left' };
+    }
+
+    return ImageSampler.fromImage(texture.image as CanvasImageSource & { width: number; height: number });
+  }
+
+  private static fromImage(image: CanvasImageSource & { width: number; height: number }): RawImageData {
+    let ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(image.width, image.height);
+      ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D;
+    } else if (typeof document !== 'undefined') {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width;
+      canvas.height = image.height;
+      ctx = canvas.getContext('2d')!;
+    } else {
+      throw new Error('ImageSampler: no canvas available to read image pixels; pass raw pixel data or an ImageDecoder');
+    }
+
+    ctx.drawImage(image, 0, 0);
+    const imageData = ctx.getImageData(0, 0, image.width, image.height);
+    return { data: imageData.data, width: imageData.width, height: imageData.height, channels: 4 };
+  }
+
+  private static async loadUrl(url: string, decoder?: ImageDecoder): Promise<RawImageData> {
+    if (decoder) return decoder(url);
+
+    if (typeof document !== 'undefined') {
+      const texture = await new THREE.TextureLoader().loadAsync(url);
+      const raw = ImageSampler.fromImage(texture.image);
+      texture.dispose();
+      return raw;
+    }
+
+    if (typeof fetch !== 'undefined' && typeof createImageBitmap !== 'undefined') {
+      const blob = await (await fetch(url)).blob();
+      const bitmap = await createImageBitmap(blob);
+      const raw = ImageSampler.fromImage(bitmap);
+      bitmap.close();
+      return raw;
+    }
+
+    throw new Error(`ImageSampler: cannot decode "${url}" without a DOM; supply an ImageDecoder`);
+  }
+}
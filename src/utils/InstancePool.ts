@@ -71,6 +71,27 @@ export class InstancePool {
     return this.freeIds.length > 0 || this.nextId < this.maxInstances;
   }
 
+  /**
+   * Number of IDs that can still be acquired
+   */
+  getAvailableCount(): number {
+    return this.freeIds.length + this.maxInstances - this.nextId;
+  }
+
+  /**
+   * Get the maximum number of instances
+   */
+  getCapacity(): number {
+    return this.maxInstances;
+  }
+
+  /**
+   * Raise the maximum number of instances (never below the IDs already handed out)
+   */
+  setCapacity(maxInstances: number): void {
+    this.maxInstances = Math.max(maxInstances, this.nextId);
+  }
+
   /**
    * Get the number of active instances
    */
@@ -1,10 +1,32 @@
 import * as THREE from 'three';
-import type { BaseScatterConfig, LODConfig, NoiseDistributionConfig, DensityMapConfig, ScatterEvents } from '../core';
+import type {
+    BaseScatterConfig,
+    HLODConfig,
+    InstanceColorConfig,
+    LODConfig,
+    NoiseDistributionConfig,
+    DensityMapConfig,
+    PlacementRule,
+    PointDistribution,
+    ScatterEvents,
+    ScatterSource,
+    ScatterVariant,
+    TransformModifier,
+    WindConfig
+} from '../core';
+
+/**
+ * Current save format version.
+ * 2: noise distribution uses a world-continuous field unless perChunkSeed is set
+ */
+const SAVE_VERSION = 2;
 
 /**
  * Serialized scatter system data
  */
 export interface ScatterSaveData {
+    /** Save format version (missing in saves from before version 2) */
+    version?: number;
     /** System type identifier */
     type: string;
     /** Serialized configuration */
@@ -22,6 +44,38 @@ export interface SerializedInstance {
     scale: [number, number, number];
 }
 
+/**
+ * Serialized source variant (the object itself is supplied again on load, by id)
+ */
+export type SerializedScatterVariant = Omit<ScatterVariant, 'object' | 'id'> & { id: string };
+
+/**
+ * Serialized placement rule.
+ * Distance and custom rules and masks without a textureUrl hold objects or functions
+ * and must be supplied again on load.
+ */
+export type SerializedPlacementRule =
+    | Extract<PlacementRule, { type: 'altitude' | 'slope' | 'noise' }>
+    | (Omit<Extract<PlacementRule, { type: 'mask' }>, 'source' | 'worldBounds'> & {
+        worldBounds: { min: [number, number]; max: [number, number] };
+    })
+    | (Omit<Extract<PlacementRule, { type: 'region' }>, 'box' | 'sphere'> & {
+        box?: { min: [number, number, number]; max: [number, number, number] };
+        sphere?: { center: [number, number, number]; radius: number };
+    });
+
+/**
+ * Serialized transform modifier (custom modifiers must be supplied again on load)
+ */
+export type SerializedTransformModifier =
+    | Exclude<TransformModifier, { type: 'faceToward' | 'custom' }>
+    | (Omit<Extract<TransformModifier, { type: 'faceToward' }>, 'target'> & { target: [number, number, number] });
+
+/**
+ * Objects for loading a multi-variant save, keyed by variant id
+ */
+export type ScatterVariantObjects = Record<string, THREE.Mesh | THREE.Group>;
+
 /**
  * Serialized configuration (JSON-safe version of BaseScatterConfig)
  */
@@ -30,6 +84,8 @@ export interface SerializedScatterConfig {
     maxInstances?: number;
     visibilityRange: number;
     chunkSize?: number;
+    distribution?: PointDistribution;
+    minSpacing?: number;
     scaleRange?: [number, number];
     rotationRange?: [number, number];
     heightOffset?: number;
@@ -38,7 +94,14 @@ export interface SerializedScatterConfig {
     showChunksDebug?: boolean;
     noiseDistribution?: NoiseDistributionConfig;
     lod?: LODConfig;
-    densityMap?: Omit<DensityMapConfig, 'worldBounds'> & {
+    hlod?: Omit<HLODConfig, 'source'>;
+    instanceColor?: Omit<InstanceColorConfig, 'color'> & { color?: number };
+    wind?: WindConfig;
+    placementRules?: SerializedPlacementRule[];
+    transformModifiers?: SerializedTransformModifier[];
+    /** Source variants, when the system was created with several */
+    variants?: SerializedScatterVariant[];
+    densityMap?: Omit<DensityMapConfig, 'worldBounds' | 'source'> & {
         worldBounds: { min: [number, number]; max: [number, number] };
     };
     // System-specific config fields serialized separately
@@ -60,6 +123,8 @@ export class ScatterSerializer {
 
         if (config.maxInstances !== undefined) serialized.maxInstances = config.maxInstances;
         if (config.chunkSize !== undefined) serialized.chunkSize = config.chunkSize;
+        if (config.distribution !== undefined) serialized.distribution = config.distribution;
+        if (config.minSpacing !== undefined) serialized.minSpacing = config.minSpacing;
         if (config.scaleRange !== undefined) serialized.scaleRange = config.scaleRange;
         if (config.rotationRange !== undefined) serialized.rotationRange = config.rotationRange;
         if (config.heightOffset !== undefined) serialized.heightOffset = config.heightOffset;
@@ -67,13 +132,54 @@ export class ScatterSerializer {
         if (config.randomSeed !== undefined) serialized.randomSeed = config.randomSeed;
         if (config.showChunksDebug !== undefined) serialized.showChunksDebug = config.showChunksDebug;
         if (config.noiseDistribution) serialized.noiseDistribution = config.noiseDistribution;
-        if (config.lod) serialized.lod = config.lod;
+        if (config.lod) {
+            // LOD source objects are not JSON-safe; re-attach them to the loaded levels
+            serialized.lod = { ...config.lod, levels: config.lod.levels.map(({ source, ...level }) => level) };
+        }
+        if (config.hlod) {
+            const { source, ...hlod } = config.hlod;
+            serialized.hlod = hlod;
+        }
+        if (config.instanceColor) {
+            // Instance attribute generators are functions and must be supplied again on load
+            const { color, ...instanceColor } = config.instanceColor;
+            serialized.instanceColor = color !== undefined
+                ? { ...instanceColor, color: new THREE.Color(color).getHex() }
+                : instanceColor;
+        }
+        if (config.wind) serialized.wind = { ...config.wind };
+        if (config.placementRules) {
+            serialized.placementRules = config.placementRules
+                .map(rule => this.serializePlacementRule(rule))
+                .filter((rule): rule is SerializedPlacementRule => rule !== null);
+        }
+        if (config.transformModifiers) {
+            serialized.transformModifiers = [];
+            for (const modifier of config.transformModifiers) {
+                if (modifier.type === 'custom') continue;
+                serialized.transformModifiers.push(modifier.type === 'faceToward'
+                    ? { ...modifier, target: modifier.target.toArray() }
+                    : { ...modifier });
+            }
+        }
+
+        if (Array.isArray(config.source)) {
+            serialized.variants = config.source.map((variant, index) => {
+                const entry: SerializedScatterVariant = { id: variant.id ?? String(index), weight: variant.weight };
+                if (variant.scaleRange) entry.scaleRange = variant.scaleRange;
+                if (variant.rotationRange) entry.rotationRange = variant.rotationRange;
+                return entry;
+            });
+        }
 
         if (config.densityMap) {
             serialized.densityMap = {
                 textureUrl: config.densityMap.textureUrl,
                 channel: config.densityMap.channel,
                 multiplier: config.densityMap.multiplier,
+                filter: config.densityMap.filter,
+                outOfBoundsValue: config.densityMap.outOfBoundsValue,
+                invert: config.densityMap.invert,
                 worldBounds: {
                     min: [config.densityMap.worldBounds.min.x, config.densityMap.worldBounds.min.y],
                     max: [config.densityMap.worldBounds.max.x, config.densityMap.worldBounds.max.y],
@@ -86,14 +192,16 @@ export class ScatterSerializer {
 
     /**
      * Deserialize a configuration back to Three.js objects
+     * @param source - Object to instance, or for multi-variant saves the variants' objects
+     *                 (a variant list or a map keyed by variant id)
      */
     static deserializeConfig(
         serialized: SerializedScatterConfig,
-        source: THREE.Mesh | THREE.Group,
+        source: ScatterSource | ScatterVariantObjects,
         events?: ScatterEvents
     ): BaseScatterConfig {
         const config: BaseScatterConfig = {
-            source,
+            source: this.resolveSource(serialized, source),
             density: serialized.density,
             visibilityRange: serialized.visibilityRange,
             events,
@@ -101,6 +209,8 @@ export class ScatterSerializer {
 
         if (serialized.maxInstances !== undefined) config.maxInstances = serialized.maxInstances;
         if (serialized.chunkSize !== undefined) config.chunkSize = serialized.chunkSize;
+        if (serialized.distribution !== undefined) config.distribution = serialized.distribution;
+        if (serialized.minSpacing !== undefined) config.minSpacing = serialized.minSpacing;
         if (serialized.scaleRange !== undefined) config.scaleRange = serialized.scaleRange;
         if (serialized.rotationRange !== undefined) config.rotationRange = serialized.rotationRange;
         if (serialized.heightOffset !== undefined) config.heightOffset = serialized.heightOffset;
@@ -109,12 +219,26 @@ export class ScatterSerializer {
         if (serialized.showChunksDebug !== undefined) config.showChunksDebug = serialized.showChunksDebug;
         if (serialized.noiseDistribution) config.noiseDistribution = serialized.noiseDistribution;
         if (serialized.lod) config.lod = serialized.lod;
+        if (serialized.hlod) config.hlod = serialized.hlod;
+        if (serialized.instanceColor) config.instanceColor = serialized.instanceColor;
+        if (serialized.wind) config.wind = serialized.wind;
+        if (serialized.placementRules) {
+            config.placementRules = serialized.placementRules.map(rule => this.deserializePlacementRule(rule));
+        }
+        if (serialized.transformModifiers) {
+            config.transformModifiers = serialized.transformModifiers.map(modifier => modifier.type === 'faceToward'
+                ? { ...modifier, target: new THREE.Vector3(...modifier.target) }
+                : { ...modifier });
+        }
 
         if (serialized.densityMap) {
             config.densityMap = {
                 textureUrl: serialized.densityMap.textureUrl,
                 channel: serialized.densityMap.channel,
                 multiplier: serialized.densityMap.multiplier,
+                filter: serialized.densityMap.filter,
+                outOfBoundsValue: serialized.densityMap.outOfBoundsValue,
+                invert: serialized.densityMap.invert,
                 worldBounds: new THREE.Box2(
                     new THREE.Vector2(serialized.densityMap.worldBounds.min[0], serialized.densityMap.worldBounds.min[1]),
                     new THREE.Vector2(serialized.densityMap.worldBounds.max[0], serialized.densityMap.worldBounds.max[1])
@@ -125,11 +249,94 @@ export class ScatterSerializer {
         return config;
     }
 
+    /**
+     * JSON-safe copy of a placement rule, or null when it can't be saved
+     */
+    private static serializePlacementRule(rule: PlacementRule): SerializedPlacementRule | null {
+        switch (rule.type) {
+            case 'altitude':
+            case 'slope':
+            case 'noise':
+                return { ...rule };
+            case 'mask': {
+                if (!rule.textureUrl) return null;
+                const { source, worldBounds, ...mask } = rule;
+                return {
+                    ...mask,
+                    worldBounds: {
+                        min: [worldBounds.min.x, worldBounds.min.y],
+                        max: [worldBounds.max.x, worldBounds.max.y],
+                    }
+                };
+            }
+            case 'region': {
+                const { box, sphere, ...region } = rule;
+                const entry: SerializedPlacementRule = { ...region };
+                if (box) entry.box = { min: box.min.toArray(), max: box.max.toArray() };
+                if (sphere) entry.sphere = { center: sphere.center.toArray(), radius: sphere.radius };
+                return entry;
+            }
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Restore a placement rule's Three.js objects
+     */
+    private static deserializePlacementRule(rule: SerializedPlacementRule): PlacementRule {
+        switch (rule.type) {
+            case 'mask':
+                return {
+                    ...rule,
+                    worldBounds: new THREE.Box2(
+                        new THREE.Vector2(...rule.worldBounds.min),
+                        new THREE.Vector2(...rule.worldBounds.max)
+                    ),
+                };
+            case 'region': {
+                const { box, sphere, ...region } = rule;
+                return {
+                    ...region,
+                    box: box ? new THREE.Box3(new THREE.Vector3(...box.min), new THREE.Vector3(...box.max)) : undefined,
+                    sphere: sphere ? new THREE.Sphere(new THREE.Vector3(...sphere.center), sphere.radius) : undefined,
+                };
+            }
+            default:
+                return { ...rule };
+        }
+    }
+
+    /**
+     * Match saved variant ids to the supplied objects
+     */
+    private static resolveSource(
+        serialized: SerializedScatterConfig,
+        source: ScatterSource | ScatterVariantObjects
+    ): ScatterSource {
+        const isSource = Array.isArray(source) || source instanceof THREE.Object3D;
+
+        if (!serialized.variants) {
+            if (!isSource) throw new Error('Expected a mesh, group or variant list for a single-source save');
+            return source as ScatterSource;
+        }
+
+        return serialized.variants.map(variant => {
+            const object = Array.isArray(source)
+                ? source.find((candidate, index) => (candidate.id ?? String(index)) === variant.id)?.object
+                : isSource ? undefined : (source as ScatterVariantObjects)[variant.id];
+
+            if (!object) throw new Error(`Missing object for scatter variant: ${variant.id}`);
+            return { ...variant, object };
+        });
+    }
+
     /**
      * Serialize to JSON string
      */
     static toJSON(config: BaseScatterConfig, type: string): string {
         const saveData: ScatterSaveData = {
+            version: SAVE_VERSION,
             type,
             config: this.serializeConfig(config),
         };
@@ -141,10 +348,17 @@ export class ScatterSerializer {
      */
     static fromJSON(
         json: string,
-        source: THREE.Mesh | THREE.Group,
+        source: ScatterSource | ScatterVariantObjects,
         events?: ScatterEvents
     ): { type: string; config: BaseScatterConfig } {
         const saveData: ScatterSaveData = JSON.parse(json);
+
+        // Older saves were laid out with per-chunk noise; keep them identical
+        const noise = saveData.config.noiseDistribution;
+        if ((saveData.version ?? 1) < 2 && noise && noise.perChunkSeed === undefined) {
+            noise.perChunkSeed = true;
+        }
+
         return {
             type: saveData.type,
             config: this.deserializeConfig(saveData.config, source, events),
@@ -0,0 +1,164 @@
+import * as THREE from 'three';
+import type { WindConfig } from '../core/types';
+
+/** Per-instance attribute holding each instance's sway phase in radians */
+export const WIND_PHASE_ATTRIBUTE = 'windPhase';
+
+/** Longest step the wind clock advances per update, so pauses don't jump the animation */
+const MAX_TIME_STEP = 0.1;
+
+const WIND_DECLARATIONS = /* glsl */ `
+uniform float uWindTime;
+uniform vec2 uWindDirection;
+uniform float uWindStrength;
+uniform float uWindFrequency;
+uniform float uWindGustStrength;
+uniform float uWindGustScale;
+uniform float uWindGustSpeed;
+uniform float uWindBendHeight;
+uniform float uWindBendExponent;
+attribute float ${WIND_PHASE_ATTRIBUTE};
+
+float windHash(vec2 p) {
+  return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+}
+
+float windNoise(vec2 p) {
+  vec2 i = floor(p);
+  vec2 f = fract(p);
+  vec2 u = f * f * (3.0 - 2.0 * f);
+  return mix(
+    mix(windHash(i), windHash(i + vec2(1.0, 0.0)), u.x),
+    mix(windHash(i + vec2(0.0, 1.0)), windHash(i + vec2(1.0, 1.0)), u.x),
+    u.y
+  );
+}
+`;
+
+/**
+ * Vertex code run after <begin_vertex>: bends `transformed` along the wind direction,
+ * weighted by height so the root stays in place
+ */
+function getWindVertex(bendWeight: string): string {
+  return /* glsl */ `
+#ifdef USE_INSTANCING
+  mat4 windModel = modelMatrix * instanceMatrix;
+#else
+  mat4 windModel = modelMatrix;
+#endif
+  vec2 windRoot = (windModel * vec4(0.0, 0.0, 0.0, 1.0)).xz;
+  float windBend = pow(clamp(${bendWeight}, 0.0, 1.0), uWindBendExponent);
+  float windSway = 0.5 + 0.5 * sin(uWindTime * uWindFrequency * 6.2831853 + ${WIND_PHASE_ATTRIBUTE});
+  float windGust = windNoise(windRoot * uWindGustScale - uWindDirection * uWindTime * uWindGustSpeed);
+  float windAmount = uWindStrength * windBend * windSway * (1.0 + uWindGustStrength * windGust);
+  transformed += inverse(mat3(windModel)) * vec3(uWindDirection.x, 0.0, uWindDirection.y) * windAmount;
+`;
+}
+
+/**
+ * Wind animation for scattered foliage.
+ * Patches clones of materials through onBeforeCompile; every patched material shares
+ * one set of uniforms, so update() and setConfig() animate all of them at once.
+ * Source materials are never modified.
+ */
+export class WindMaterialPatch {
+  readonly uniforms = {
+    uWindTime: { value: 0 },
+    uWindDirection: { value: new THREE.Vector2(1, 0) },
+    uWindStrength: { value: 0.3 },
+    uWindFrequency: { value: 0.5 },
+    uWindGustStrength: { value: 0.5 },
+    uWindGustScale: { value: 0.05 },
+    uWindGustSpeed: { value: 2 },
+    uWindBendHeight: { value: 1 },
+    uWindBendExponent: { value: 2 }
+  };
+  private bendAttribute: string | null;
+  private materials: Map<THREE.Material, THREE.Material> = new Map();
+  private depthMaterials: THREE.Material[] = [];
+  private lastTimestamp: number | null = null;
+
+  constructor(config: WindConfig) {
+    this.bendAttribute = config.bendAttribute ?? null;
+    this.setConfig(config);
+  }
+
+  /**
+   * Update wind parameters; the bend attribute is fixed at construction
+   */
+  setConfig(config: Omit<WindConfig, 'bendAttribute'>): void {
+    const uniforms = this.uniforms;
+    if (config.direction) uniforms.uWindDirection.value.set(config.direction[0], config.direction[1]).normalize();
+    if (config.strength !== undefined) uniforms.uWindStrength.value = config.strength;
+    if (config.frequency !== undefined) uniforms.uWindFrequency.value = config.frequency;
+    if (config.gustStrength !== undefined) uniforms.uWindGustStrength.value = config.gustStrength;
+    if (config.gustScale !== undefined) uniforms.uWindGustScale.value = config.gustScale;
+    if (config.gustSpeed !== undefined) uniforms.uWindGustSpeed.value = config.gustSpeed;
+    if (config.bendHeight !== undefined) uniforms.uWindBendHeight.value = config.bendHeight;
+    if (config.bendExponent !== undefined) uniforms.uWindBendExponent.value = config.bendExponent;
+  }
+
+  /**
+   * Advance the shared time uniform to a timestamp in milliseconds
+   */
+  update(timestamp: number): void {
+    if (this.lastTimestamp !== null) {
+      const delta = Math.min(MAX_TIME_STEP, Math.max(0, (timestamp - this.lastTimestamp) / 1000));
+      this.uniforms.uWindTime.value += delta;
+    }
+    this.lastTimestamp = timestamp;
+  }
+
+  /**
+   * Patched clone of a material (one clone per source material)
+   */
+  patch(material: THREE.Material): THREE.Material {
+    let patched = this.materials.get(material);
+    if (!patched) {
+      patched = this.patchClone(material.clone(), material);
+      this.materials.set(material, patched);
+    }
+    return patched;
+  }
+
+  /**
+   * Shadow materials that sway with the patched materials, for meshes that cast shadows
+   */
+  createShadowMaterials(): { depth: THREE.Material; distance: THREE.Material } {
+    const depth = this.patchClone(new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking }));
+    const distance = this.patchClone(new THREE.MeshDistanceMaterial());
+    this.depthMaterials.push(depth, distance);
+    return { depth, distance };
+  }
+
+  private patchClone(clone: THREE.Material, source?: THREE.Material): THREE.Material {
+    const onBeforeCompile = source?.onBeforeCompile;
+    const cacheKey = source?.customProgramCacheKey.bind(source);
+    const bendWeight = this.bendAttribute ?? 'position.y / uWindBendHeight';
+    const declarations = this.bendAttribute ? `${WIND_DECLARATIONS}attribute float ${this.bendAttribute};\n` : WIND_DECLARATIONS;
+
+    clone.onBeforeCompile = (shader, renderer) => {
+      onBeforeCompile?.call(clone, shader, renderer);
+      Object.assign(shader.uniforms, this.uniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\n${declarations}`)
+        .replace('#include <begin_vertex>', `#include <begin_vertex>\n${getWindVertex(bendWeight)}`);
+    };
+    clone.customProgramCacheKey = () => `${cacheKey?.() ?? ''}|scatter-wind:${this.bendAttribute ?? 'y'}`;
+    return clone;
+  }
+
+  /**
+   * Dispose every patched material
+   */
+  dispose(): void {
+    for (const material of this.materials.values()) {
+      material.dispose();
+    }
+    for (const material of this.depthMaterials) {
+      material.dispose();
+    }
+    this.materials.clear();
+    this.depthMaterials = [];
+  }
+}
@@ -1,5 +1,11 @@
 export { SeededRandom } from './SeededRandom';
 export { PerlinNoise } from './PerlinNoise';
 export { InstancePool } from './InstancePool';
+export { ChunkTransformCache } from './ChunkTransformCache';
+export type { CachedChunk } from './ChunkTransformCache';
+export { GeometryBatcher } from './GeometryBatcher';
+export { WindMaterialPatch, WIND_PHASE_ATTRIBUTE } from './WindMaterialPatch';
 export { ScatterSerializer } from './ScatterSerializer';
-export type { ScatterSaveData, SerializedScatterConfig, SerializedInstance } from './ScatterSerializer';
+export type { ScatterSaveData, SerializedScatterConfig, SerializedInstance, SerializedScatterVariant, SerializedPlacementRule, SerializedTransformModifier, ScatterVariantObjects } from './ScatterSerializer';
+export { ImageSampler } from './ImageDataSource';
+export type { ImageDataSource, ImageDecoder, RawImageData, ImageChannel } from './ImageDataSource';
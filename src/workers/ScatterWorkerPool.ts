@@ -0,0 +1,167 @@
+import type { ChunkCandidates, ChunkTask, GenerationSettings } from '../core/ChunkGenerator';
+
+/**
+ * Messages sent from the main thread to a scatter worker
+ */
+export type ScatterWorkerRequest =
+  | { type: 'init'; systemId: string; generatorType: string; settings: GenerationSettings; params: unknown }
+  | { type: 'generate'; systemId: string; requestId: number; task: ChunkTask }
+  | { type: 'release'; systemId: string };
+
+/**
+ * Messages sent from a scatter worker back to the main thread
+ */
+export type ScatterWorkerResponse =
+  | { requestId: number; candidates: ChunkCandidates }
+  | { requestId: number; error: string };
+
+interface PendingRequest {
+  resolve: (candidates: ChunkCandidates) => void;
+  reject: (error: Error) => void;
+  worker: number;
+}
+
+/**
+ * Pool of Web Workers running chunk generation off the main thread.
+ * Workers are created by a user factory and must call registerScatterWorker().
+ */
+export class ScatterWorkerPool {
+  private workers: Worker[] = [];
+  private load: number[] = [];
+  /** Workers that failed to load or crashed; no requests are routed to them */
+  private failed: boolean[] = [];
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextRequestId: number = 0;
+
+  /**
+   * @param createWorker - Factory returning a worker whose script calls registerScatterWorker()
+   * @param size - Number of workers (default: hardware concurrency - 1, at least 1)
+   */
+  constructor(createWorker: () => Worker, size?: number) {
+    const concurrency = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency ?? 2 : 2;
+    const count = Math.max(1, size ?? concurrency - 1);
+
+    for (let i = 0; i < count; i++) {
+      const worker = createWorker();
+      const index = this.workers.length;
+      worker.onmessage = (event: MessageEvent<ScatterWorkerResponse>) => this.handleResponse(event.data);
+      worker.onerror = (event: ErrorEvent) => this.handleFailure(index, event.message || 'Scatter worker failed');
+      worker.onmessageerror = () => this.handleFailure(index, 'Scatter worker response could not be deserialized');
+      this.workers.push(worker);
+      this.load.push(0);
+      this.failed.push(false);
+    }
+  }
+
+  /**
+   * Whether Web Workers exist in this environment
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Number of working workers in the pool (failed workers are not counted)
+   */
+  get size(): number {
+    return this.failed.filter(failed => !failed).length;
+  }
+
+  /**
+   * Send a system's generator settings and params to every worker
+   */
+  register(systemId: string, generatorType: string, settings: GenerationSettings, params: unknown): void {
+    const message: ScatterWorkerRequest = { type: 'init', systemId, generatorType, settings, params };
+    this.workers.forEach((worker, index) => {
+      if (!this.failed[index]) worker.postMessage(message);
+    });
+  }
+
+  /**
+   * Drop a system's generator from every worker
+   */
+  unregister(systemId: string): void {
+    const message: ScatterWorkerRequest = { type: 'release', systemId };
+    this.workers.forEach((worker, index) => {
+      if (!this.failed[index]) worker.postMessage(message);
+    });
+  }
+
+  /**
+   * Generate a chunk on the least busy worker
+   * @returns Packed instance matrices (16 floats per instance) and their variants
+   */
+  generate(systemId: string, task: ChunkTask): Promise<ChunkCandidates> {
+    let workerIndex = -1;
+    for (let i = 0; i < this.load.length; i++) {
+      if (this.failed[i]) continue;
+      if (workerIndex === -1 || this.load[i] < this.load[workerIndex]) workerIndex = i;
+    }
+    if (workerIndex === -1) {
+      return Promise.reject(new Error('No scatter worker available'));
+    }
+
+    const requestId = this.nextRequestId++;
+    this.load[workerIndex]++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject, worker: workerIndex });
+      const message: ScatterWorkerRequest = { type: 'generate', systemId, requestId, task };
+      this.workers[workerIndex].postMessage(message);
+    });
+  }
+
+  /**
+   * Number of requests currently being processed
+   */
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  private handleResponse(response: ScatterWorkerResponse): void {
+    const request = this.pending.get(response.requestId);
+    if (!request) return;
+
+    this.pending.delete(response.requestId);
+    this.load[request.worker]--;
+
+    if ('error' in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.candidates);
+    }
+  }
+
+  /**
+   * Stop routing requests to a failed worker and reject the requests it holds,
+   * so callers can fall back to the main thread
+   */
+  private handleFailure(workerIndex: number, message: string): void {
+    if (this.failed[workerIndex]) return;
+    this.failed[workerIndex] = true;
+    this.load[workerIndex] = 0;
+    this.workers[workerIndex].terminate();
+
+    for (const [requestId, request] of [...this.pending]) {
+      if (request.worker !== workerIndex) continue;
+      this.pending.delete(requestId);
+      request.reject(new Error(message));
+    }
+  }
+
+  /**
+   * Terminate all workers and reject outstanding requests
+   */
+  dispose(): void {
+    for (const worker of this.workers) {
+      worker.terminate();
+    }
+    for (const request of this.pending.values()) {
+      request.reject(new Error('ScatterWorkerPool disposed'));
+    }
+    this.workers = [];
+    this.load = [];
+    this.failed = [];
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,3 @@
+export { ScatterWorkerPool } from './ScatterWorkerPool';
+export type { ScatterWorkerRequest, ScatterWorkerResponse } from './ScatterWorkerPool';
+export { registerScatterWorker } from './registerScatterWorker';
@@ -0,0 +1,60 @@
+import { ChunkGenerator, ChunkGeneratorRegistry } from '../core/ChunkGenerator';
+import type { ScatterWorkerRequest, ScatterWorkerResponse } from './ScatterWorkerPool';
+// Registers the built-in generator types
+import '../systems';
+
+/**
+ * Minimal worker global scope used by the scatter worker
+ */
+interface ScatterWorkerScope {
+  onmessage: ((event: MessageEvent<ScatterWorkerRequest>) => void) | null;
+  postMessage(message: ScatterWorkerResponse, transfer?: Transferable[]): void;
+}
+
+/**
+ * Turn the current Web Worker into a scatter generation worker.
+ * Call this from the worker script passed to ScatterWorkerPool:
+ *
+ * ```ts
+ * import { registerScatterWorker } from '@interverse/three-scatter';
+ * registerScatterWorker();
+ * ```
+ */
+export function registerScatterWorker(scope: ScatterWorkerScope = self as unknown as ScatterWorkerScope): void {
+  const generators: Map<string, ChunkGenerator> = new Map();
+
+  scope.onmessage = (event) => {
+    const message = event.data;
+
+    switch (message.type) {
+      case 'init':
+        generators.set(
+          message.systemId,
+          ChunkGeneratorRegistry.create(message.generatorType, message.settings, message.params)
+        );
+        break;
+
+      case 'release':
+        generators.delete(message.systemId);
+        break;
+
+      case 'generate': {
+        const generator = generators.get(message.systemId);
+        if (!generator) {
+          scope.postMessage({ requestId: message.requestId, error: `No generator registered for ${message.systemId}` });
+          return;
+        }
+        try {
+          const candidates = generator.run(message.task);
+          const transfer: Transferable[] = [candidates.matrices.buffer, candidates.normals.buffer];
+          if (candidates.variants) transfer.push(candidates.variants.buffer);
+          if (candidates.rejections) transfer.push(candidates.rejections.buffer);
+          scope.postMessage({ requestId: message.requestId, candidates }, transfer);
+        } catch (error) {
+          scope.postMessage({ requestId: message.requestId, error: String(error) });
+        }
+        break;
+      }
+    }
+  };
+}